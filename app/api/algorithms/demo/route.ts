@@ -0,0 +1,7 @@
+import { proxyToBackend } from "@/lib/api/proxy"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return proxyToBackend("/api/algorithms/demo", { timeoutMs: 15000 })
+}
@@ -0,0 +1,14 @@
+import { proxyToBackend, readJsonBody, validationErrorResponse } from "@/lib/api/proxy"
+import { recipeRequestSchema } from "@/lib/api/schemas"
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request)
+  if ("error" in json) return json.error
+
+  const parsed = recipeRequestSchema.required({ target_recipe_id: true }).safeParse(json.body)
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  return proxyToBackend("/api/ingredients/gap-analysis", { method: "POST", body: parsed.data })
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server"
+import { proxyToBackend } from "@/lib/api/proxy"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest, { params }: { params: { ingredient: string } }) {
+  return proxyToBackend(
+    `/api/ingredients/substitutions/${encodeURIComponent(params.ingredient)}${request.nextUrl.search}`,
+    { timeoutMs: 15000 },
+  )
+}
@@ -0,0 +1,7 @@
+import { proxyToBackend } from "@/lib/api/proxy"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  return proxyToBackend(`/api/recipes/${encodeURIComponent(params.id)}`, { timeoutMs: 15000 })
+}
@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server"
+import { proxyToBackend } from "@/lib/api/proxy"
+import { applyDietaryProfileToSearch } from "@/lib/profile/apply"
+import { emptyDietaryProfile } from "@/lib/profile/schemas"
+import { getDietaryProfile } from "@/app/profile/actions"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  const profile = await getDietaryProfile()
+  const params = applyDietaryProfileToSearch(request.nextUrl.searchParams, profile.data ?? emptyDietaryProfile)
+  const query = params.toString()
+  return proxyToBackend(`/api/recipes/search${query ? `?${query}` : ""}`)
+}
@@ -0,0 +1,21 @@
+import { proxyToBackend, readJsonBody, validationErrorResponse } from "@/lib/api/proxy"
+import { suggestRequestSchema } from "@/lib/api/schemas"
+import { applyDietaryProfile } from "@/lib/profile/apply"
+import { emptyDietaryProfile } from "@/lib/profile/schemas"
+import { getDietaryProfile } from "@/app/profile/actions"
+
+export async function POST(request: Request) {
+  const json = await readJsonBody(request)
+  if ("error" in json) return json.error
+
+  const parsed = suggestRequestSchema.safeParse(json.body)
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error)
+  }
+
+  const profile = await getDietaryProfile()
+  return proxyToBackend("/api/recipes/suggest", {
+    method: "POST",
+    body: applyDietaryProfile(parsed.data, profile.data ?? emptyDietaryProfile),
+  })
+}
@@ -1,440 +1,653 @@
 'use client'
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { createClient } from "@/lib/supabase/client"
 import { useRouter } from "next/navigation"
 import { RecipeCard } from "@/components/recipe-card"
+import { DietaryOverride } from "@/components/dietary-override"
+import { RecipeFilterBar } from "@/components/recipe-filter-bar"
+import { IngredientTokenInput } from "@/components/ingredient-token-input"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 // Using emoji alternatives to avoid Lucide React TypeScript issues
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/hooks/use-toast"
+import { checkHealth, searchRecipes, suggestRecipes } from "@/lib/api/client"
+import { ApiSchemaError, ApiTimeoutError, isAbortError, isBackendUnavailable } from "@/lib/api/errors"
+import type { Recipe } from "@/lib/api/schemas"
+import { getFeaturedOfflineRecipes, offlineRecipes } from "@/lib/offline/dataset"
+import { matchRecipesByIngredients, searchRecipesByName } from "@/lib/offline/matcher"
+import { matchUserAllergens } from "@/lib/allergens/taxonomy"
+import { announceSearchActivity } from "@/lib/insights/search-activity"
+import { normaliseIngredients } from "@/lib/ingredients/vocabulary"
+import { describeExpiry, getItemsExpiringThisWeek, prioritiseExpiringIngredients } from "@/lib/pantry/expiry"
+import type { PantryItem } from "@/lib/pantry/schemas"
+import {
+  emptyAllergenSettings,
+  emptyDietaryProfile,
+  type AllergenSettings,
+  type DietaryProfile,
+} from "@/lib/profile/schemas"
+import {
+  applyRecipeFilters,
+  emptyRecipeFilters,
+  parseRecipeFilters,
+  writeRecipeFilters,
+  type RecipeFilters,
+} from "@/lib/recipes/filters"
+import { rememberSearchIngredients } from "@/lib/recipes/match-context"
+import { listPantryItems } from "@/app/pantry/actions"
+import { listSavedRecipeIds } from "@/app/saved/actions"
+import { searchUserRecipes } from "@/app/my-recipes/actions"
+import { getAllergenSettings, getDietaryProfile } from "@/app/profile/actions"
 
-// This constant will dynamically use the live URL on Render or the local one on your machine.
-const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface Recipe {
-  id: string
-  name: string
-  description: string
-  ingredients: Array<{ name: string; quantity?: number; unit?: string }>
-  instructions: string[]
-  prep_time?: number
-  cook_time?: number
-  servings?: number
-  difficulty?: string
-  cuisine?: string
-  image_url?: string
-  match_score?: number
-  match_percentage?: number
-  matched_ingredients?: string[]
-  missing_ingredients?: string[]
-  total_matched?: number
-  total_user_ingredients?: number
-  substitution_suggestions?: Record<string, string[]>
-  algorithm_used?: string
-}
+export default function DashboardPage() {
+  const [user, setUser] = useState<any>(null)
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [ingredients, setIngredients] = useState<string[]>([])
+  const [backendConnected, setBackendConnected] = useState(false)
+  const [pantryItems, setPantryItems] = useState<PantryItem[]>([])
+  const [favourExpiring, setFavourExpiring] = useState(true)
+  const [savedRecipeIds, setSavedRecipeIds] = useState<Set<string>>(new Set())
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(emptyDietaryProfile)
+  // The proxy applies the profile itself; this only holds a per-search change
+  const [dietOverride, setDietOverride] = useState<DietaryProfile | null>(null)
+  const [filters, setFilters] = useState<RecipeFilters>(emptyRecipeFilters)
+  const [allergenSettings, setAllergenSettings] = useState<AllergenSettings>(emptyAllergenSettings)
+  const [hideAllergenRecipes, setHideAllergenRecipes] = useState(false)
+  const ingredientSearchAbortRef = useRef<AbortController | null>(null)
+  const querySearchAbortRef = useRef<AbortController | null>(null)
+  const lastIngredientKeyRef = useRef<string>("")
+  const lastQueryRef = useRef<string>("")
+  
+  const router = useRouter()
+  const { toast } = useToast()
+  const supabase = createClient()
 
-interface AlgorithmStats {
-  graph_traversals: number
-  greedy_selections: number
-  backtracking_calls: number
-  total_execution_time: number
-}
+  // Check authentication and load initial data
+  useEffect(() => {
+    checkAuth()
+    checkBackendConnection()
+    loadInitialRecipes()
+    loadPantry()
+    loadSavedRecipeIds()
+    loadDietaryProfile()
+    loadAllergenSettings()
+    // Read here rather than with useSearchParams so the page needn't suspend
+    setFilters(parseRecipeFilters(new URLSearchParams(window.location.search)))
+  }, [])
 
-export default function DashboardPage() {
-  const [user, setUser] = useState<any>(null)
-  const [recipes, setRecipes] = useState<Recipe[]>([])
-  const [loading, setLoading] = useState(true)
-  const [searching, setSearching] = useState(false)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [ingredients, setIngredients] = useState("")
-  const [algorithmStats, setAlgorithmStats] = useState<AlgorithmStats | null>(null)
-  const [backendConnected, setBackendConnected] = useState(false)
-  const ingredientSearchAbortRef = useRef<AbortController | null>(null)
-  const querySearchAbortRef = useRef<AbortController | null>(null)
-  const lastIngredientKeyRef = useRef<string>("")
-  const lastQueryRef = useRef<string>("")
-  
-  const router = useRouter()
-  const { toast } = useToast()
-  const supabase = createClient()
-
-  // Check authentication and load initial data
-  useEffect(() => {
-    checkAuth()
-    checkBackendConnection()
-    loadInitialRecipes()
-  }, [])
-
-  const checkAuth = async () => {
-    const { data: { user }, error } = await supabase.auth.getUser()
-    if (error || !user) {
-      router.push("/auth/login")
-      return
-    }
-    setUser(user)
-  }
-
-  const checkBackendConnection = async () => {
-    try {
-      const response = await fetch(`${apiUrl}/api/health`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' }
-      })
-      if (response.ok) {
-        setBackendConnected(true)
-      } else {
-        throw new Error('Backend not responding')
-      }
-    } catch (error) {
-      console.log('Backend not available')
-      setBackendConnected(false)
-    }
-  }
-
-  const loadInitialRecipes = async () => {
-    setLoading(true)
-    try {
-      // Optimized: fetch with timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 60000) // **(60s Timeout)**
-      
-      const response = await fetch(`${apiUrl}/api/recipes/search?limit=12`, { 
-        signal: controller.signal,
-        keepalive: true 
-      })
-      clearTimeout(timeoutId)
-      
-      if (response.ok) {
-        const data = await response.json()
-        console.log('Initial recipes loaded:', data)
-        setRecipes(data.recipes || [])
-        setBackendConnected(true)
-      } else {
-        throw new Error('Backend request failed')
-      }
-    } catch (error: any) {
-      console.error('Error loading recipes:', error)
-      if (error.name === 'AbortError') {
-        toast({
-          title: "Loading Timeout",
-          description: "Backend is taking too long. Please check if it's running.",
-          variant: "destructive"
-        })
-      }
-      setRecipes([])
-      setBackendConnected(false)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const getSampleRecipes = (): Recipe[] => []
-
-  const searchRecipesByIngredients = async () => {
-    if (!ingredients.trim()) {
-      toast({
-        title: "Please enter ingredients",
-        description: "Add some ingredients to find matching recipes! (e.g., chicken, rice, onion)",
-        variant: "destructive"
-      })
-      return
-    }
-
-    // Avoid duplicate searches for same inputs
-    const key = ingredients.split(',').map(i => i.trim().toLowerCase()).filter(Boolean).sort().join(',')
-    if (key && key === lastIngredientKeyRef.current) {
-      toast({
-        title: "Already Searched",
-        description: "These ingredients were just searched. Try different ones!",
-      })
-      return
-    }
-    lastIngredientKeyRef.current = key
-
-    setSearching(true)
-    try {
-      const ingredientList = ingredients.split(',').map(i => i.trim()).filter(i => i)
-      
-      if (!backendConnected) {
-        toast({
-          title: "Backend Not Connected",
-          description: "Please start the backend server first!",
-          variant: "destructive"
-        })
-        setSearching(false)
-        return
-      }
-
-      // Use Python backend with algorithms
-      // Cancel any in-flight request
-      if (ingredientSearchAbortRef.current) ingredientSearchAbortRef.current.abort()
-      ingredientSearchAbortRef.current = new AbortController()
-      
-      console.log('Searching with ingredients:', ingredientList)
-      
-      // Optimized: Add timeout for search
-      const timeoutId = setTimeout(() => {
-        if (ingredientSearchAbortRef.current) {
-          ingredientSearchAbortRef.current.abort()
-        }
-      }, 60000) // **(60s Timeout)**
-      
-      const recipesResponse = await fetch(`${apiUrl}/api/recipes/suggest`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          available_ingredients: ingredientList,
-          max_recipes: 12
-        }),
-        signal: ingredientSearchAbortRef.current.signal,
-        keepalive: true
-      })
-      clearTimeout(timeoutId)
-
-      if (recipesResponse.ok) {
-        const recipesData = await recipesResponse.json()
-        console.log('Recipes received:', recipesData)
-        
-        // Handle both array and object responses
-        const recipeArray = Array.isArray(recipesData) ? recipesData : (recipesData.recipes || [])
-        
-        setRecipes(recipeArray)
-        
-        if (recipeArray.length > 0) {
-          toast({
-            title: "✅ Recipes Found!",
-            description: `Found ${recipeArray.length} delicious recipes matching your ingredients!`,
-          })
-        } else {
-          toast({
-            title: "No Recipes Found",
-            description: "Try different ingredients like: chicken, rice, tomato, onion",
-            variant: "destructive"
-          })
-        }
-      } else {
-        throw new Error(`Backend returned ${recipesResponse.status}`)
-      }
-    } catch (error: any) {
-      console.error('Search error:', error)
-      if (error.name === 'AbortError') {
-        toast({
-          title: "Search Timeout",
-          description: "Search is taking too long. Backend might be slow. Try again.",
-          variant: "destructive"
-        })
-        setSearching(false)
-        return
-      }
-      toast({
-        title: "Search Error",
-        description: "Failed to search recipes. Check if backend is running on port 8000.",
-        variant: "destructive"
-      })
-      setRecipes([])
-    } finally {
-      setSearching(false)
-    }
-  }
-
-  const searchRecipesByQuery = async () => {
-    if (!searchQuery.trim()) {
-      toast({
-        title: "Please enter a recipe name",
-        description: "Try searching for: biryani, butter chicken, dosa, etc.",
-        variant: "destructive"
-      })
-      return
-    }
-
-    // Avoid duplicate searches for same query
-    if (searchQuery.toLowerCase() === lastQueryRef.current) {
-      toast({
-        title: "Already Searched",
-        description: "This recipe was just searched. Try a different one!",
-      })
-      return
-    }
-    lastQueryRef.current = searchQuery.toLowerCase()
-
-    if (!backendConnected) {
-      toast({
-        title: "Backend Not Connected",
-        description: "Please start the backend server first!",
-        variant: "destructive"
-      })
-      return
-    }
-
-    setSearching(true)
-    try {
-      // Cancel any in-flight request
-      if (querySearchAbortRef.current) querySearchAbortRef.current.abort()
-      querySearchAbortRef.current = new AbortController()
-      
-      console.log('Searching for recipe:', searchQuery)
-      
-      const response = await fetch(`${apiUrl}/api/recipes/search?query=${encodeURIComponent(searchQuery)}&limit=12`, { 
-        signal: querySearchAbortRef.current.signal, 
-        keepalive: true 
-      })
-      
-      if (response.ok) {
-        const data = await response.json()
-        console.log('Query search results:', data)
-        
-        const recipeArray = data.recipes || []
-        setRecipes(recipeArray)
-        
-        if (recipeArray.length > 0) {
-          toast({
-            title: "✅ Recipes Found!",
-            description: `Found ${recipeArray.length} recipes for "${searchQuery}"`,
-          })
-        } else {
-          toast({
-            title: "No Recipes Found",
-            description: "Try: biryani, butter chicken, dosa, samosa, paneer",
-            variant: "destructive"
-          })
-        }
-      } else {
-        throw new Error(`Backend returned ${response.status}`)
-      }
-    } catch (error: any) {
-      console.error('Query search error:', error)
-      if (error.name === 'AbortError') {
-        // Request was cancelled, ignore
-        return
-      }
-      toast({
-        title: "Search Error",
-        description: "Failed to search recipes. Check if backend is running on port 8000.",
-        variant: "destructive"
-      })
-      setRecipes([])
-    } finally {
-      setSearching(false)
-    }
-  }
-
-  if (loading) {
-    return (
-      <div className="flex-1 w-full max-w-6xl mx-auto p-6 flex items-center justify-center min-h-[400px]">
-        <div className="text-center">
-          <p className="text-lg">Loading your recipe dashboard...</p>
-        </div>
-        
-      </div>
-    )
-  }
-
-  return (
-    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
-      {/* Header */}
-      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">
-            PantryIQ Dashboard
-          </h1>
-          <p className="text-muted-foreground">
-            Welcome back, {user?.email}! Discover recipes with AI-powered algorithms.
-          </p>
-        </div>
-        <div className="flex items-center gap-2">
-          <Badge variant={backendConnected ? "default" : "secondary"}>
-            {backendConnected ? "API Connected" : "Offline Mode"}
-          </Badge>
-          <Button 
-            className="w-fit"
-            onClick={() => {
-              // Focus on the ingredients input to help user start searching
-              const input = document.querySelector('input[placeholder*="Enter ingredients"]') as HTMLInputElement
-              if (input) {
-                input.focus()
-                toast({
-                  title: "Find Recipes",
-                  description: "Enter ingredients you have (e.g., chicken, rice, onion) and click 'Find Recipes' button!",
-                })
-              }
-            }}
-          >
-            Find Recipes
-          </Button>
-        </div>
-      </div>
-
-
-      {/* Ingredient Search */}
-      <Card>
-        <CardHeader>
-          <CardTitle>
-            Recipe Search
-          </CardTitle>
-          <CardDescription>
-            Search by ingredients or recipe name to find matching recipes.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex gap-2">
-            <Input 
-              placeholder="Enter ingredients (comma-separated): chicken, tomato, onion..." 
-              className="flex-1"
-              value={ingredients}
-              onChange={(e) => setIngredients(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && searchRecipesByIngredients()}
-            />
-            <Button onClick={searchRecipesByIngredients} disabled={searching} className="min-w-[140px]">
-              {searching ? '🔍 Searching...' : '🔍 Find Recipes'}
-            </Button>
-          </div>
-          
-          <div className="flex gap-2">
-            <Input 
-              placeholder="Or search by recipe name (e.g., biryani, dosa)..." 
-              className="flex-1"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && searchRecipesByQuery()}
-            />
-            <Button variant="outline" onClick={searchRecipesByQuery} disabled={searching} className="min-w-[100px]">
-              {searching ? '🔍...' : '🔍 Search'}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Recipe Grid */}
-      <div>
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-2xl font-semibold">
-            {ingredients ? 'Recommended Recipes' : 'Featured Recipes'} ({recipes.length})
-          </h2>
-          {recipes.length > 0 && (
-            <Button variant="outline" onClick={loadInitialRecipes}>
-              Reset
-            </Button>
-          )}
-        </div>
-        
-        {recipes.length === 0 ? (
-          <Card className="p-8 text-center">
-            <div className="text-muted-foreground">
-              <p className="text-lg mb-2">No recipes found</p>
-              <p>Try searching with different ingredients or recipe names</p>
-            </div>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {recipes.map((recipe) => (
-              <RecipeCard key={recipe.id} recipe={recipe} />
-            ))}
-          </div>
-        )}
-      </div>
-    </div>
-  )
+  // Lets an open insights page poll faster while results are being worked out
+  useEffect(() => {
+    announceSearchActivity(searching)
+  }, [searching])
+
+  const expiringItems = useMemo(() => getItemsExpiringThisWeek(pantryItems), [pantryItems])
+  const expiringIngredients = useMemo(
+    () => Array.from(new Set(expiringItems.map(item => item.name))),
+    [expiringItems]
+  )
+  // Pantry plus whatever was typed, for spotting substitutes the user has
+  const availableIngredients = useMemo(
+    () => [...pantryItems.map(item => item.name), ...ingredients],
+    [pantryItems, ingredients]
+  )
+  const userAllergens = allergenSettings.allergens
+  const allergenFreeRecipes = useMemo(
+    () => hideAllergenRecipes
+      ? recipes.filter(recipe => matchUserAllergens(recipe, userAllergens).length === 0)
+      : recipes,
+    [recipes, hideAllergenRecipes, userAllergens]
+  )
+  const displayedRecipes = useMemo(
+    () => applyRecipeFilters(
+      favourExpiring ? prioritiseExpiringIngredients(allergenFreeRecipes, expiringIngredients) : allergenFreeRecipes,
+      filters
+    ),
+    [allergenFreeRecipes, expiringIngredients, favourExpiring, filters]
+  )
+
+  // Filters live in the URL so a filtered view can be shared
+  const changeFilters = (next: RecipeFilters) => {
+    setFilters(next)
+    const url = new URL(window.location.href)
+    url.search = writeRecipeFilters(url.searchParams, next).toString()
+    window.history.replaceState(null, "", url)
+  }
+
+  const checkAuth = async () => {
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      router.push("/auth/login")
+      return
+    }
+    setUser(user)
+  }
+
+  const checkBackendConnection = async () => {
+    try {
+      await checkHealth({ timeoutMs: 10000 })
+      setBackendConnected(true)
+    } catch (error) {
+      console.log('Backend not available')
+      setBackendConnected(false)
+    }
+  }
+
+  // Pantry is optional here; the dashboard still works if it fails to load
+  const loadPantry = async () => {
+    const result = await listPantryItems()
+    if (result.error !== undefined) {
+      console.error('Error loading pantry:', result.error)
+      return
+    }
+    setPantryItems(result.data)
+  }
+
+  const loadSavedRecipeIds = async () => {
+    const result = await listSavedRecipeIds()
+    if (result.error !== undefined) {
+      console.error('Error loading saved recipes:', result.error)
+      return
+    }
+    setSavedRecipeIds(new Set(result.data))
+  }
+
+  const loadDietaryProfile = async () => {
+    const result = await getDietaryProfile()
+    if (result.error !== undefined) {
+      console.error('Error loading dietary profile:', result.error)
+      return
+    }
+    setDietaryProfile(result.data)
+  }
+
+  const loadAllergenSettings = async () => {
+    const result = await getAllergenSettings()
+    if (result.error !== undefined) {
+      console.error('Error loading allergen settings:', result.error)
+      return
+    }
+    setAllergenSettings(result.data)
+    setHideAllergenRecipes(result.data.hide_recipes)
+  }
+
+  const updateRecipe = (recipe: Recipe) => {
+    setRecipes(current => current.map(existing => existing.id === recipe.id ? recipe : existing))
+  }
+
+  const updateSavedRecipeId = (recipeId: string, saved: boolean) => {
+    setSavedRecipeIds(current => {
+      const next = new Set(current)
+      if (saved) next.add(recipeId)
+      else next.delete(recipeId)
+      return next
+    })
+  }
+
+  const loadInitialRecipes = async () => {
+    setLoading(true)
+    try {
+      const data = await searchRecipes({ limit: 12 })
+      console.log('Initial recipes loaded:', data)
+      setRecipes(data.recipes)
+      setBackendConnected(true)
+    } catch (error) {
+      console.error('Error loading recipes:', error)
+      if (error instanceof ApiTimeoutError) {
+        toast({
+          title: "Loading Timeout",
+          description: "Backend is taking too long. Please check if it's running.",
+          variant: "destructive"
+        })
+      } else if (error instanceof ApiSchemaError) {
+        toast({
+          title: "Unexpected Response",
+          description: error.message,
+          variant: "destructive"
+        })
+      }
+      setRecipes(getSampleRecipes())
+      setBackendConnected(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getSampleRecipes = (): Recipe[] => getFeaturedOfflineRecipes(12)
+
+  // Used when the backend is down: ranks the bundled dataset in the browser
+  const showOfflineResults = (recipeArray: Recipe[], searchDescription: string) => {
+    setRecipes(recipeArray)
+    toast({
+      title: recipeArray.length > 0 ? "📦 Offline Results" : "No Offline Recipes Found",
+      description: recipeArray.length > 0
+        ? `Backend unavailable. Showing ${recipeArray.length} recipes from the offline collection for ${searchDescription}.`
+        : `Backend unavailable and the offline collection has nothing for ${searchDescription}.`,
+      variant: recipeArray.length > 0 ? "default" : "destructive"
+    })
+  }
+
+  // `ingredientOverride` lets callers search without waiting for the input state to update
+  const searchRecipesByIngredients = async (ingredientOverride?: string[]) => {
+    const ingredientList = normaliseIngredients(ingredientOverride ?? ingredients)
+    if (ingredientList.length === 0) {
+      toast({
+        title: "Please enter ingredients",
+        description: "Add some ingredients to find matching recipes! (e.g., chicken, rice, onion)",
+        variant: "destructive"
+      })
+      return
+    }
+
+    // Avoid duplicate searches for same inputs
+    const key = [...ingredientList].sort().join(',') + JSON.stringify(dietOverride)
+    if (key && key === lastIngredientKeyRef.current) {
+      toast({
+        title: "Already Searched",
+        description: "These ingredients were just searched. Try different ones!",
+      })
+      return
+    }
+    lastIngredientKeyRef.current = key
+
+    rememberSearchIngredients(ingredientList)
+
+    setSearching(true)
+    try {
+      if (!backendConnected) {
+        showOfflineResults(matchRecipesByIngredients(offlineRecipes, ingredientList, 12), "your ingredients")
+        return
+      }
+
+      // Use Python backend with algorithms
+      // Cancel any in-flight request
+      if (ingredientSearchAbortRef.current) ingredientSearchAbortRef.current.abort()
+      ingredientSearchAbortRef.current = new AbortController()
+      
+      console.log('Searching with ingredients:', ingredientList)
+      
+      const recipeArray = await suggestRecipes(
+        {
+          available_ingredients: ingredientList,
+          max_recipes: 12,
+          ...(dietOverride && {
+            dietary_restrictions: dietOverride.dietary_restrictions,
+            cuisine_preference: dietOverride.cuisine_preference,
+          }),
+        },
+        { signal: ingredientSearchAbortRef.current.signal }
+      )
+      console.log('Recipes received:', recipeArray)
+      
+      setRecipes(recipeArray)
+      
+      if (recipeArray.length > 0) {
+        toast({
+          title: "✅ Recipes Found!",
+          description: `Found ${recipeArray.length} delicious recipes matching your ingredients!`,
+        })
+      } else {
+        toast({
+          title: "No Recipes Found",
+          description: "Try different ingredients like: chicken, rice, tomato, onion",
+          variant: "destructive"
+        })
+      }
+    } catch (error) {
+      console.error('Search error:', error)
+      if (isAbortError(error)) {
+        // Superseded by a newer search
+        return
+      }
+      if (isBackendUnavailable(error)) {
+        setBackendConnected(false)
+        showOfflineResults(matchRecipesByIngredients(offlineRecipes, ingredientList, 12), "your ingredients")
+        return
+      }
+      toast({
+        title: "Search Error",
+        description: error instanceof ApiSchemaError
+          ? error.message
+          : "Failed to search recipes. Check if backend is running on port 8000.",
+        variant: "destructive"
+      })
+      setRecipes([])
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const searchWithPantry = async () => {
+    const result = await listPantryItems()
+    if (result.error !== undefined) {
+      toast({
+        title: "Pantry Error",
+        description: result.error,
+        variant: "destructive"
+      })
+      return
+    }
+    setPantryItems(result.data)
+
+    const pantryIngredients = Array.from(new Set(result.data.map(item => item.name)))
+    if (pantryIngredients.length === 0) {
+      toast({
+        title: "Your pantry is empty",
+        description: "Add ingredients on the Pantry page to search with them in one click.",
+      })
+      return
+    }
+
+    setIngredients(normaliseIngredients(pantryIngredients))
+    await searchRecipesByIngredients(pantryIngredients)
+  }
+
+  const searchWithExpiring = async () => {
+    setIngredients(normaliseIngredients(expiringIngredients))
+    await searchRecipesByIngredients(expiringIngredients)
+  }
+
+  // User-authored recipes (own and published) come first in name searches
+  const withCommunityRecipes = async (recipeArray: Recipe[], query: string): Promise<Recipe[]> => {
+    const result = await searchUserRecipes(query, 12)
+    if (result.error !== undefined) {
+      console.error('Community recipe search error:', result.error)
+      return recipeArray
+    }
+    const ids = new Set(result.data.map(recipe => recipe.id))
+    return [...result.data, ...recipeArray.filter(recipe => !ids.has(recipe.id))]
+  }
+
+  const searchRecipesByQuery = async () => {
+    if (!searchQuery.trim()) {
+      toast({
+        title: "Please enter a recipe name",
+        description: "Try searching for: biryani, butter chicken, dosa, etc.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    // Avoid duplicate searches for same query
+    const queryKey = searchQuery.toLowerCase() + JSON.stringify(dietOverride)
+    if (queryKey === lastQueryRef.current) {
+      toast({
+        title: "Already Searched",
+        description: "This recipe was just searched. Try a different one!",
+      })
+      return
+    }
+    lastQueryRef.current = queryKey
+
+    if (!backendConnected) {
+      showOfflineResults(
+        await withCommunityRecipes(searchRecipesByName(offlineRecipes, searchQuery, 12), searchQuery),
+        `"${searchQuery}"`
+      )
+      return
+    }
+
+    setSearching(true)
+    try {
+      // Cancel any in-flight request
+      if (querySearchAbortRef.current) querySearchAbortRef.current.abort()
+      querySearchAbortRef.current = new AbortController()
+      
+      console.log('Searching for recipe:', searchQuery)
+      
+      const data = await searchRecipes(
+        {
+          query: searchQuery,
+          limit: 12,
+          ...(dietOverride && {
+            diet: dietOverride.dietary_restrictions[0] ?? null,
+            cuisine: dietOverride.cuisine_preference,
+          }),
+        },
+        { signal: querySearchAbortRef.current.signal }
+      )
+      console.log('Query search results:', data)
+      
+      const recipeArray = await withCommunityRecipes(data.recipes, searchQuery)
+      setRecipes(recipeArray)
+      
+      if (recipeArray.length > 0) {
+        toast({
+          title: "✅ Recipes Found!",
+          description: `Found ${recipeArray.length} recipes for "${searchQuery}"`,
+        })
+      } else {
+        toast({
+          title: "No Recipes Found",
+          description: "Try: biryani, butter chicken, dosa, samosa, paneer",
+          variant: "destructive"
+        })
+      }
+    } catch (error) {
+      console.error('Query search error:', error)
+      if (isAbortError(error)) {
+        // Request was cancelled, ignore
+        return
+      }
+      if (isBackendUnavailable(error)) {
+        setBackendConnected(false)
+        showOfflineResults(
+          await withCommunityRecipes(searchRecipesByName(offlineRecipes, searchQuery, 12), searchQuery),
+          `"${searchQuery}"`
+        )
+        return
+      }
+      toast({
+        title: "Search Error",
+        description: error instanceof ApiSchemaError
+          ? error.message
+          : "Failed to search recipes. Check if backend is running on port 8000.",
+        variant: "destructive"
+      })
+      setRecipes([])
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 w-full max-w-6xl mx-auto p-6 flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-lg">Loading your recipe dashboard...</p>
+        </div>
+        
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            PantryIQ Dashboard
+          </h1>
+          <p className="text-muted-foreground">
+            Welcome back, {user?.email}! Discover recipes with AI-powered algorithms.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={backendConnected ? "default" : "secondary"}>
+            {backendConnected ? "API Connected" : "Offline Mode"}
+          </Badge>
+          <Button 
+            className="w-fit"
+            onClick={() => {
+              // Focus on the ingredients input to help user start searching
+              const input = document.getElementById("ingredient-search")
+              if (input) {
+                input.focus()
+                toast({
+                  title: "Find Recipes",
+                  description: "Enter ingredients you have (e.g., chicken, rice, onion) and click 'Find Recipes' button!",
+                })
+              }
+            }}
+          >
+            Find Recipes
+          </Button>
+        </div>
+      </div>
+
+
+      {/* Ingredient Search */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Recipe Search
+          </CardTitle>
+          <CardDescription>
+            Search by ingredients or recipe name to find matching recipes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <IngredientTokenInput
+              id="ingredient-search"
+              placeholder="Enter ingredients: chicken, tomato, aloo..."
+              className="flex-1"
+              value={ingredients}
+              onChange={setIngredients}
+              onSubmit={() => searchRecipesByIngredients()}
+            />
+            <Button onClick={() => searchRecipesByIngredients()} disabled={searching} className="min-w-[140px]">
+              {searching ? '🔍 Searching...' : '🔍 Find Recipes'}
+            </Button>
+            <Button variant="secondary" onClick={searchWithPantry} disabled={searching}>
+              🥫 Use My Pantry
+            </Button>
+          </div>
+          
+          <div className="flex gap-2">
+            <Input 
+              placeholder="Or search by recipe name (e.g., biryani, dosa)..." 
+              className="flex-1"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && searchRecipesByQuery()}
+            />
+            <Button variant="outline" onClick={searchRecipesByQuery} disabled={searching} className="min-w-[100px]">
+              {searching ? '🔍...' : '🔍 Search'}
+            </Button>
+          </div>
+
+          <DietaryOverride profile={dietaryProfile} override={dietOverride} onOverrideChange={setDietOverride} />
+        </CardContent>
+      </Card>
+
+      {/* Use It Up Soon */}
+      {expiringItems.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50/50">
+          <CardHeader>
+            <CardTitle>
+              ⏰ Expiring This Week
+            </CardTitle>
+            <CardDescription>
+              Use these pantry items before they go off.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {expiringItems.map((item) => (
+                <Badge key={item.id} variant="outline" className="bg-white capitalize">
+                  {item.name} · {describeExpiry(item.expires_on!)}
+                </Badge>
+              ))}
+            </div>
+            <Button variant="secondary" onClick={searchWithExpiring} disabled={searching}>
+              🍳 Cook With These
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recipe Grid */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold">
+            {ingredients.length > 0 ? 'Recommended Recipes' : 'Featured Recipes'} (
+            {displayedRecipes.length === recipes.length ? recipes.length : `${displayedRecipes.length} of ${recipes.length}`})
+          </h2>
+          <div className="flex items-center gap-4">
+            {expiringIngredients.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="favour-expiring" checked={favourExpiring} onCheckedChange={setFavourExpiring} />
+                <Label htmlFor="favour-expiring">Favour expiring items</Label>
+              </div>
+            )}
+            {userAllergens.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="hide-allergens" checked={hideAllergenRecipes} onCheckedChange={setHideAllergenRecipes} />
+                <Label htmlFor="hide-allergens">Hide recipes with my allergens</Label>
+              </div>
+            )}
+            {recipes.length > 0 && (
+              <Button variant="outline" onClick={loadInitialRecipes}>
+                Reset
+              </Button>
+            )}
+          </div>
+        </div>
+        
+        {recipes.length > 0 && (
+          <div className="mb-6">
+            <RecipeFilterBar recipes={recipes} filters={filters} onFiltersChange={changeFilters} />
+          </div>
+        )}
+
+        {recipes.length === 0 ? (
+          <Card className="p-8 text-center">
+            <div className="text-muted-foreground">
+              <p className="text-lg mb-2">No recipes found</p>
+              <p>Try searching with different ingredients or recipe names</p>
+            </div>
+          </Card>
+        ) : displayedRecipes.length === 0 ? (
+          <Card className="p-8 text-center">
+            <div className="text-muted-foreground">
+              <p className="text-lg mb-2">No recipes match these filters</p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={() => changeFilters(emptyRecipeFilters)}>
+                  Clear filters
+                </Button>
+                {allergenFreeRecipes.length < recipes.length && (
+                  <Button variant="outline" onClick={() => setHideAllergenRecipes(false)}>
+                    Show recipes with my allergens
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {displayedRecipes.map((recipe) => (
+              <RecipeCard
+                key={recipe.id}
+                recipe={recipe}
+                saved={savedRecipeIds.has(recipe.id)}
+                onSavedChange={(saved) => updateSavedRecipeId(recipe.id, saved)}
+                allergens={userAllergens}
+                availableIngredients={availableIngredients}
+                onRecipeChange={updateRecipe}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
 }
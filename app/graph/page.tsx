@@ -0,0 +1,26 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { IngredientGraphExplorer } from "@/components/ingredient-graph-explorer"
+
+export default async function GraphPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/graph")
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Ingredient Graph</h1>
+        <p className="text-muted-foreground">
+          How ingredients relate to each other. Search for one, click it to bring in its neighbours, and hover over a
+          connection to see how similar two ingredients are.
+        </p>
+      </div>
+      <IngredientGraphExplorer />
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { AlgorithmInsights } from "@/components/algorithm-insights"
+
+export default async function InsightsPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/insights")
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Algorithm Insights</h1>
+        <p className="text-muted-foreground">
+          How the recommendation engine is working right now. Run a search on the dashboard, or a sample one here, and
+          watch the graph, greedy and backtracking algorithms pick it up.
+        </p>
+      </div>
+      <AlgorithmInsights />
+    </div>
+  )
+}
@@ -44,7 +44,7 @@ export default async function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <header className="w-full border-b border-b-foreground/10 h-16 flex items-center">
+          <header className="app-header w-full border-b border-b-foreground/10 h-16 flex items-center">
             <div className="w-full max-w-6xl mx-auto flex justify-between items-center px-4">
               <Link href="/">
                 <h1 className="font-bold text-lg">PantryIQ</h1>
@@ -59,6 +59,30 @@ export default async function RootLayout({
                   <Link href="/dashboard">
                     <Button variant="ghost" size="sm">Dashboard</Button>
                   </Link>
+                  <Link href="/planner">
+                    <Button variant="ghost" size="sm">Planner</Button>
+                  </Link>
+                  <Link href="/saved">
+                    <Button variant="ghost" size="sm">Saved</Button>
+                  </Link>
+                  <Link href="/my-recipes">
+                    <Button variant="ghost" size="sm">My Recipes</Button>
+                  </Link>
+                  <Link href="/pantry">
+                    <Button variant="ghost" size="sm">Pantry</Button>
+                  </Link>
+                  <Link href="/shopping-list">
+                    <Button variant="ghost" size="sm">Shopping List</Button>
+                  </Link>
+                  <Link href="/insights">
+                    <Button variant="ghost" size="sm">Insights</Button>
+                  </Link>
+                  <Link href="/graph">
+                    <Button variant="ghost" size="sm">Graph</Button>
+                  </Link>
+                  <Link href="/profile">
+                    <Button variant="ghost" size="sm">Profile</Button>
+                  </Link>
                   <form action={signOut}>
                     <Button variant="outline" size="sm">Logout</Button>
                   </form>
@@ -0,0 +1,30 @@
+import { notFound, redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { RecipeEditor } from "@/components/recipe-editor"
+import { getEditableRecipe } from "@/app/my-recipes/actions"
+
+export default async function EditRecipePage({ params }: { params: { id: string } }) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect(`/auth/login?redirectedFrom=/my-recipes/${params.id}/edit`)
+  }
+
+  // Also covers recipes owned by someone else
+  const values = await getEditableRecipe(params.id)
+  if (!values) {
+    notFound()
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-4xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Edit Recipe</h1>
+        <p className="text-muted-foreground">{values.name}</p>
+      </div>
+      <RecipeEditor recipeId={params.id} defaultValues={values} />
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import type { Recipe } from "@/lib/api/schemas"
+import { recipeFormSchema, recipeFormToRow, recipeToFormValues, type RecipeFormValues } from "@/lib/recipes/editor"
+import { UUID_PATTERN, recipeFromRow, type RecipeRow } from "@/lib/recipes/rows"
+import { createClient } from "@/lib/supabase/server"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+
+export type RecipeActionResult<T = undefined> = ActionResult<T>
+
+/** One of the signed-in user's own recipes, as listed on /my-recipes. */
+export interface OwnedRecipe {
+  recipe: Recipe
+  is_public: boolean
+}
+
+export async function listMyRecipes(): Promise<RecipeActionResult<OwnedRecipe[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view your recipes" }
+
+  const { data, error } = await supabase
+    .from("recipes")
+    .select("*")
+    .eq("owner_id", user.id)
+    .order("updated_at", { ascending: false })
+    .returns<RecipeRow[]>()
+  if (error) {
+    console.error("Error loading user recipes:", error)
+    return { error: "Could not load your recipes" }
+  }
+
+  const owned: OwnedRecipe[] = []
+  for (const row of data) {
+    const recipe = recipeFromRow(row)
+    if (recipe) owned.push({ recipe, is_public: row.is_public })
+  }
+  return { data: owned }
+}
+
+/** Whether the signed-in user owns the recipe with this id. */
+export async function isOwnRecipe(id: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(id)) return false
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return false
+
+  const { count } = await supabase
+    .from("recipes")
+    .select("id", { count: "exact", head: true })
+    .eq("id", id)
+    .eq("owner_id", user.id)
+  return !!count
+}
+
+/** Form values for one of the user's own recipes, or null if it isn't theirs. */
+export async function getEditableRecipe(id: string): Promise<RecipeFormValues | null> {
+  if (!UUID_PATTERN.test(id)) return null
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return null
+
+  const { data, error } = await supabase
+    .from("recipes")
+    .select("*")
+    .eq("id", id)
+    .eq("owner_id", user.id)
+    .maybeSingle<RecipeRow>()
+  if (error) console.error(`Error loading recipe ${id} for editing:`, error)
+  const recipe = data && recipeFromRow(data)
+  return recipe ? recipeToFormValues(recipe, data.is_public) : null
+}
+
+export async function createRecipe(values: RecipeFormValues): Promise<RecipeActionResult<string>> {
+  const parsed = recipeFormSchema.safeParse(values)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to create recipes" }
+
+  const { data, error } = await supabase
+    .from("recipes")
+    .insert({ ...recipeFormToRow(parsed.data), owner_id: user.id })
+    .select("id")
+    .single<Pick<RecipeRow, "id">>()
+  if (error) {
+    console.error("Error creating recipe:", error)
+    return { error: "Could not create the recipe" }
+  }
+
+  revalidatePath("/my-recipes")
+  return { data: data.id }
+}
+
+export async function updateRecipe(id: string, values: RecipeFormValues): Promise<RecipeActionResult<string>> {
+  const parsed = recipeFormSchema.safeParse(values)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to edit recipes" }
+
+  const { data, error } = await supabase
+    .from("recipes")
+    .update({ ...recipeFormToRow(parsed.data), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("owner_id", user.id)
+    .select("id")
+    .maybeSingle<Pick<RecipeRow, "id">>()
+  if (error) {
+    console.error("Error updating recipe:", error)
+    return { error: "Could not update the recipe" }
+  }
+  if (!data) return { error: "You can only edit your own recipes" }
+
+  revalidatePath("/my-recipes")
+  revalidatePath(`/recipe/${id}`)
+  return { data: data.id }
+}
+
+export async function deleteRecipe(id: string): Promise<RecipeActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to delete recipes" }
+
+  const { error } = await supabase.from("recipes").delete().eq("id", id).eq("owner_id", user.id)
+  if (error) {
+    console.error("Error deleting recipe:", error)
+    return { error: "Could not delete the recipe" }
+  }
+
+  revalidatePath("/my-recipes")
+  return { data: undefined }
+}
+
+/**
+ * Name search over user-authored recipes: the user's own plus everyone's
+ * published ones (RLS hides the rest).
+ */
+export async function searchUserRecipes(query: string, limit = 12): Promise<RecipeActionResult<Recipe[]>> {
+  const term = query.trim()
+  if (!term) return { data: [] }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from("recipes")
+    .select("*")
+    .ilike("name", `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`)
+    .order("updated_at", { ascending: false })
+    .limit(limit)
+    .returns<RecipeRow[]>()
+  if (error) {
+    console.error("Error searching user recipes:", error)
+    return { error: "Could not search community recipes" }
+  }
+  return {
+    data: data.flatMap((row) => {
+      const recipe = recipeFromRow(row)
+      return recipe ? [{ ...recipe, algorithm_used: "community_recipe" }] : []
+    }),
+  }
+}
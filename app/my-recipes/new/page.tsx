@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { RecipeEditor } from "@/components/recipe-editor"
+import { emptyRecipeForm } from "@/lib/recipes/editor"
+
+interface NewRecipePageProps {
+  searchParams: { import?: string }
+}
+
+export default async function NewRecipePage({ searchParams }: NewRecipePageProps) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/my-recipes/new")
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-4xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">New Recipe</h1>
+        <p className="text-muted-foreground">New recipes are private until you publish them.</p>
+      </div>
+      <RecipeEditor defaultValues={emptyRecipeForm} startWithImport={searchParams.import !== undefined} />
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { MyRecipesList } from "@/components/my-recipes-list"
+import { Button } from "@/components/ui/button"
+import { listMyRecipes } from "@/app/my-recipes/actions"
+
+export default async function MyRecipesPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/my-recipes")
+  }
+
+  const result = await listMyRecipes()
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Recipes</h1>
+          <p className="text-muted-foreground">
+            Recipes you&apos;ve written. Published ones appear in everyone&apos;s name searches.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/my-recipes/new?import">
+            <Button variant="outline">Import Recipe</Button>
+          </Link>
+          <Link href="/my-recipes/new">
+            <Button>New Recipe</Button>
+          </Link>
+        </div>
+      </div>
+      <MyRecipesList recipes={result.data ?? []} loadError={result.error} />
+    </div>
+  )
+}
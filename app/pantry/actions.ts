@@ -0,0 +1,80 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+import { pantryItemInputSchema, type PantryItem, type PantryItemInput } from "@/lib/pantry/schemas"
+
+export type PantryActionResult<T = undefined> = ActionResult<T>
+
+export async function listPantryItems(): Promise<PantryActionResult<PantryItem[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view your pantry" }
+
+  const { data, error } = await supabase
+    .from("pantry_items")
+    .select("*")
+    .order("added_at", { ascending: false })
+    .returns<PantryItem[]>()
+  if (error) {
+    console.error("Error loading pantry items:", error)
+    return { error: "Could not load your pantry" }
+  }
+  return { data }
+}
+
+export async function addPantryItem(input: PantryItemInput): Promise<PantryActionResult<PantryItem>> {
+  const parsed = pantryItemInputSchema.safeParse(input)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to add pantry items" }
+
+  const { data, error } = await supabase
+    .from("pantry_items")
+    .insert({ ...parsed.data, user_id: user.id })
+    .select()
+    .single<PantryItem>()
+  if (error) {
+    console.error("Error adding pantry item:", error)
+    return { error: "Could not add the item" }
+  }
+
+  revalidatePath("/pantry")
+  return { data }
+}
+
+export async function updatePantryItem(id: string, input: PantryItemInput): Promise<PantryActionResult<PantryItem>> {
+  const parsed = pantryItemInputSchema.safeParse(input)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to edit pantry items" }
+
+  const { data, error } = await supabase
+    .from("pantry_items")
+    .update(parsed.data)
+    .eq("id", id)
+    .select()
+    .single<PantryItem>()
+  if (error) {
+    console.error("Error updating pantry item:", error)
+    return { error: "Could not update the item" }
+  }
+
+  revalidatePath("/pantry")
+  return { data }
+}
+
+export async function deletePantryItem(id: string): Promise<PantryActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to remove pantry items" }
+
+  const { error } = await supabase.from("pantry_items").delete().eq("id", id)
+  if (error) {
+    console.error("Error deleting pantry item:", error)
+    return { error: "Could not remove the item" }
+  }
+
+  revalidatePath("/pantry")
+  return { data: undefined }
+}
@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { PantryManager } from "@/components/pantry-manager"
+import { listPantryItems } from "@/app/pantry/actions"
+
+export default async function PantryPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/pantry")
+  }
+
+  const result = await listPantryItems()
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">My Pantry</h1>
+        <p className="text-muted-foreground">
+          Keep track of what you have at home and search recipes with it in one click.
+        </p>
+      </div>
+      <PantryManager initialItems={result.data ?? []} loadError={result.error} />
+    </div>
+  )
+}
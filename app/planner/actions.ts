@@ -0,0 +1,149 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { addDays, format, parseISO } from "date-fns"
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+import {
+  mealPlanServingsSchema,
+  mealSlots,
+  planDateSchema,
+  type MealPlanEntry,
+  type MealPlanEntryRow,
+  type MealSlot,
+} from "@/lib/planner/schemas"
+import { withoutRecipeMatch } from "@/lib/recipes/match-context"
+import { getBaseServings } from "@/lib/recipes/scale"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+
+export type PlannerActionResult<T = undefined> = ActionResult<T>
+
+function entryFromRow(row: MealPlanEntryRow): MealPlanEntry | null {
+  const recipe = recipeSchema.safeParse(row.recipe)
+  if (!recipe.success) {
+    console.error(`Meal plan entry ${row.id} has an invalid recipe snapshot:`, recipe.error.issues)
+    return null
+  }
+  return { id: row.id, plan_date: row.plan_date, slot: row.slot, recipe: recipe.data, servings: row.servings }
+}
+
+/** Entries for the seven days starting at `weekStart` (yyyy-MM-dd). */
+export async function listMealPlan(weekStart: string): Promise<PlannerActionResult<MealPlanEntry[]>> {
+  const parsedStart = planDateSchema.safeParse(weekStart)
+  if (!parsedStart.success) return { error: parsedStart.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view your meal plan" }
+
+  const weekEnd = format(addDays(parseISO(parsedStart.data), 6), "yyyy-MM-dd")
+  const { data, error } = await supabase
+    .from("meal_plan_entries")
+    .select("*")
+    .gte("plan_date", parsedStart.data)
+    .lte("plan_date", weekEnd)
+    .order("plan_date", { ascending: true })
+    .returns<MealPlanEntryRow[]>()
+  if (error) {
+    console.error("Error loading meal plan:", error)
+    return { error: "Could not load your meal plan" }
+  }
+  return { data: data.map(entryFromRow).filter((entry): entry is MealPlanEntry => entry !== null) }
+}
+
+/** Puts a recipe into a slot, replacing whatever was planned there. */
+export async function planMeal(
+  planDate: string,
+  slot: MealSlot,
+  recipe: Recipe,
+  servings?: number,
+): Promise<PlannerActionResult<MealPlanEntry>> {
+  const parsedDate = planDateSchema.safeParse(planDate)
+  if (!parsedDate.success) return { error: parsedDate.error.issues[0].message }
+  if (!mealSlots.includes(slot)) return { error: "Unknown meal slot" }
+  const parsedRecipe = recipeSchema.safeParse(recipe)
+  if (!parsedRecipe.success) return { error: "This recipe could not be planned" }
+  const parsedServings = mealPlanServingsSchema.safeParse(servings ?? getBaseServings(parsedRecipe.data))
+  if (!parsedServings.success) return { error: "Servings must be between 1 and 50" }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to plan meals" }
+
+  const { data, error } = await supabase
+    .from("meal_plan_entries")
+    .upsert(
+      {
+        user_id: user.id,
+        plan_date: parsedDate.data,
+        slot,
+        recipe_id: parsedRecipe.data.id,
+        recipe: withoutRecipeMatch(parsedRecipe.data),
+        servings: parsedServings.data,
+      },
+      { onConflict: "user_id,plan_date,slot" },
+    )
+    .select()
+    .single<MealPlanEntryRow>()
+  if (error) {
+    console.error("Error planning meal:", error)
+    return { error: "Could not add the meal to your plan" }
+  }
+
+  revalidatePath("/planner")
+  const entry = entryFromRow(data)
+  return entry ? { data: entry } : { error: "Could not add the meal to your plan" }
+}
+
+/** Moves an entry to another slot, replacing whatever was planned there. */
+export async function moveMeal(id: string, planDate: string, slot: MealSlot): Promise<PlannerActionResult> {
+  const parsedDate = planDateSchema.safeParse(planDate)
+  if (!parsedDate.success) return { error: parsedDate.error.issues[0].message }
+  if (!mealSlots.includes(slot)) return { error: "Unknown meal slot" }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to plan meals" }
+
+  // Clearing the target slot and moving happen in one transaction; see
+  // scripts/07-create-meal-plan-entries-table.sql
+  const { error } = await supabase.rpc("move_meal_plan_entry", {
+    entry_id: id,
+    target_date: parsedDate.data,
+    target_slot: slot,
+  })
+  if (error) {
+    console.error("Error moving meal:", error)
+    return { error: "Could not move the meal" }
+  }
+
+  revalidatePath("/planner")
+  return { data: undefined }
+}
+
+export async function updateMealServings(id: string, servings: number): Promise<PlannerActionResult> {
+  const parsed = mealPlanServingsSchema.safeParse(servings)
+  if (!parsed.success) return { error: "Servings must be between 1 and 50" }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to plan meals" }
+
+  const { error } = await supabase.from("meal_plan_entries").update({ servings: parsed.data }).eq("id", id)
+  if (error) {
+    console.error("Error updating meal servings:", error)
+    return { error: "Could not update the servings" }
+  }
+
+  revalidatePath("/planner")
+  return { data: undefined }
+}
+
+export async function removeMeal(id: string): Promise<PlannerActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to plan meals" }
+
+  const { error } = await supabase.from("meal_plan_entries").delete().eq("id", id)
+  if (error) {
+    console.error("Error removing meal:", error)
+    return { error: "Could not remove the meal" }
+  }
+
+  revalidatePath("/planner")
+  return { data: undefined }
+}
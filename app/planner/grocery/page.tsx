@@ -0,0 +1,73 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { addWeeks, format, isValid } from "date-fns"
+import { createClient } from "@/lib/supabase/server"
+import { Button } from "@/components/ui/button"
+import { MealPlanGroceryList } from "@/components/meal-plan-grocery-list"
+import { listPantryItems } from "@/app/pantry/actions"
+import { listMealPlan } from "@/app/planner/actions"
+import { buildGroceryList } from "@/lib/planner/grocery"
+import { planDateSchema } from "@/lib/planner/schemas"
+import { fromPlanDate, getWeekStart, toPlanDate } from "@/lib/planner/week"
+
+interface GroceryPageProps {
+  searchParams: { week?: string | string[] }
+}
+
+export default async function GroceryPage({ searchParams }: GroceryPageProps) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/planner/grocery")
+  }
+
+  // Any date in the week works; an invalid one falls back to this week
+  const weekParam = planDateSchema.safeParse(Array.isArray(searchParams.week) ? searchParams.week[0] : searchParams.week)
+  const requested = weekParam.success ? fromPlanDate(weekParam.data) : null
+  const weekStart = getWeekStart(requested && isValid(requested) ? requested : new Date())
+  const weekLabel = `${format(weekStart, "d MMM")} – ${format(addWeeks(weekStart, 1).getTime() - 1, "d MMM")}`
+
+  const [planResult, pantryResult] = await Promise.all([listMealPlan(toPlanDate(weekStart)), listPantryItems()])
+  const loadError = planResult.error ?? pantryResult.error
+
+  return (
+    <div className="flex-1 w-full max-w-4xl mx-auto p-6 space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Grocery List</h1>
+          <p className="text-muted-foreground">
+            Everything planned for {weekLabel}, scaled to your servings, minus what&apos;s in your pantry.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href={`/planner/grocery?week=${toPlanDate(addWeeks(weekStart, -1))}`}>
+            <Button variant="outline" size="sm">
+              ← Previous week
+            </Button>
+          </Link>
+          <Link href={`/planner/grocery?week=${toPlanDate(addWeeks(weekStart, 1))}`}>
+            <Button variant="outline" size="sm">
+              Next week →
+            </Button>
+          </Link>
+          <Link href="/planner">
+            <Button variant="ghost" size="sm">
+              Back to Planner
+            </Button>
+          </Link>
+        </div>
+      </div>
+      {loadError ? (
+        <p className="text-destructive">{loadError}</p>
+      ) : (
+        <MealPlanGroceryList
+          key={toPlanDate(weekStart)}
+          list={buildGroceryList(planResult.data ?? [], pantryResult.data ?? [])}
+          planLabel={`Meal plan ${weekLabel}`}
+        />
+      )}
+    </div>
+  )
+}
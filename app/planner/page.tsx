@@ -0,0 +1,36 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { MealPlanner } from "@/components/meal-planner"
+import { listMealPlan } from "@/app/planner/actions"
+import { listSavedRecipes } from "@/app/saved/actions"
+import { getWeekStart, toPlanDate } from "@/lib/planner/week"
+
+export default async function PlannerPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/planner")
+  }
+
+  const weekStart = toPlanDate(getWeekStart(new Date()))
+  const [planResult, savedResult] = await Promise.all([listMealPlan(weekStart), listSavedRecipes()])
+
+  return (
+    <div className="flex-1 w-full max-w-7xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Meal Planner</h1>
+        <p className="text-muted-foreground">
+          Plan breakfast, lunch and dinner for the week and see how long each day will take to cook.
+        </p>
+      </div>
+      <MealPlanner
+        initialWeekStart={weekStart}
+        initialEntries={planResult.data ?? []}
+        savedRecipes={savedResult.data ?? []}
+        loadError={planResult.error}
+      />
+    </div>
+  )
+}
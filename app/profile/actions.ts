@@ -0,0 +1,65 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+import {
+  ALLERGEN_SETTINGS_METADATA_KEY,
+  DIETARY_PROFILE_METADATA_KEY,
+  allergenSettingsFromMetadata,
+  allergenSettingsSchema,
+  dietaryProfileFromMetadata,
+  dietaryProfileSchema,
+  emptyAllergenSettings,
+  emptyDietaryProfile,
+  type AllergenSettings,
+  type DietaryProfile,
+} from "@/lib/profile/schemas"
+
+export type ProfileActionResult<T = undefined> = ActionResult<T>
+
+/** The signed-in user's dietary profile; empty for signed-out visitors. */
+export async function getDietaryProfile(): Promise<ProfileActionResult<DietaryProfile>> {
+  const { user } = await getAuthenticatedClient()
+  return { data: user ? dietaryProfileFromMetadata(user.user_metadata) : emptyDietaryProfile }
+}
+
+export async function updateDietaryProfile(input: DietaryProfile): Promise<ProfileActionResult<DietaryProfile>> {
+  const parsed = dietaryProfileSchema.safeParse(input)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to update your profile" }
+
+  // updateUser merges `data` into the existing metadata, so the name is kept
+  const { error } = await supabase.auth.updateUser({ data: { [DIETARY_PROFILE_METADATA_KEY]: parsed.data } })
+  if (error) {
+    console.error("Error updating dietary profile:", error)
+    return { error: "Could not save your dietary profile" }
+  }
+
+  revalidatePath("/profile")
+  return { data: parsed.data }
+}
+
+/** The signed-in user's allergens; none for signed-out visitors. */
+export async function getAllergenSettings(): Promise<ProfileActionResult<AllergenSettings>> {
+  const { user } = await getAuthenticatedClient()
+  return { data: user ? allergenSettingsFromMetadata(user.user_metadata) : emptyAllergenSettings }
+}
+
+export async function updateAllergenSettings(input: AllergenSettings): Promise<ProfileActionResult<AllergenSettings>> {
+  const parsed = allergenSettingsSchema.safeParse(input)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to update your profile" }
+
+  const { error } = await supabase.auth.updateUser({ data: { [ALLERGEN_SETTINGS_METADATA_KEY]: parsed.data } })
+  if (error) {
+    console.error("Error updating allergen settings:", error)
+    return { error: "Could not save your allergens" }
+  }
+
+  revalidatePath("/profile")
+  return { data: parsed.data }
+}
@@ -0,0 +1,26 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { AllergenSettingsForm } from "@/components/allergen-settings-form"
+import { DietaryProfileForm } from "@/components/dietary-profile-form"
+import { allergenSettingsFromMetadata, dietaryProfileFromMetadata } from "@/lib/profile/schemas"
+
+export default async function ProfilePage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/profile")
+  }
+
+  return (
+    <div className="flex-1 w-full max-w-2xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Profile</h1>
+        <p className="text-muted-foreground">Signed in as {user.email}</p>
+      </div>
+      <DietaryProfileForm initialProfile={dietaryProfileFromMetadata(user.user_metadata)} />
+      <AllergenSettingsForm initialSettings={allergenSettingsFromMetadata(user.user_metadata)} />
+    </div>
+  )
+}
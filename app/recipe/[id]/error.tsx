@@ -0,0 +1,24 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+
+export default function RecipeError({ reset }: { error: Error; reset: () => void }) {
+  return (
+    <div className="container mx-auto py-8">
+      <Card className="p-8 text-center">
+        <p className="text-lg mb-2">Couldn&apos;t load this recipe</p>
+        <p className="text-muted-foreground mb-4">
+          The recipe service is not responding. Check that the backend is running and try again.
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={reset}>Try Again</Button>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+
+export default function RecipeNotFound() {
+  return (
+    <div className="container mx-auto py-8">
+      <Card className="p-8 text-center">
+        <p className="text-lg mb-2">Recipe not found</p>
+        <p className="text-muted-foreground mb-4">
+          This recipe may have been removed, or the link is incorrect.
+        </p>
+        <Link href="/dashboard">
+          <Button>Back to Dashboard</Button>
+        </Link>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { notFound } from "next/navigation"
+import { RecipePrintView } from "@/components/recipe-print-view"
+import { loadRecipe } from "@/lib/recipes/load"
+import { parseServingsParam } from "@/lib/recipes/scale"
+import type { UnitSystem } from "@/lib/units/units"
+
+interface RecipePrintPageProps {
+  params: { id: string }
+  searchParams: { servings?: string | string[]; units?: string | string[] }
+}
+
+export default async function RecipePrintPage({ params, searchParams }: RecipePrintPageProps) {
+  const recipe = await loadRecipe(params.id)
+  if (!recipe) {
+    notFound()
+  }
+
+  const units = Array.isArray(searchParams.units) ? searchParams.units[0] : searchParams.units
+  const unitSystem: UnitSystem | null = units === "metric" || units === "imperial" ? units : null
+
+  return (
+    <RecipePrintView
+      recipe={recipe}
+      servings={parseServingsParam(searchParams.servings, recipe)}
+      unitSystem={unitSystem}
+    />
+  )
+}
@@ -0,0 +1,194 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+import { withoutRecipeMatch } from "@/lib/recipes/match-context"
+import { cookbookNameSchema, type Cookbook, type SavedRecipe, type SavedRecipeRow } from "@/lib/saved/schemas"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+
+export type SavedActionResult<T = undefined> = ActionResult<T>
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505"
+
+type SavedRecipeWithCookbooks = SavedRecipeRow & { cookbook_recipes: { cookbook_id: string }[] }
+
+export async function listSavedRecipes(): Promise<SavedActionResult<SavedRecipe[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view saved recipes" }
+
+  const { data, error } = await supabase
+    .from("saved_recipes")
+    .select("*, cookbook_recipes(cookbook_id)")
+    .order("saved_at", { ascending: false })
+    .returns<SavedRecipeWithCookbooks[]>()
+  if (error) {
+    console.error("Error loading saved recipes:", error)
+    return { error: "Could not load your saved recipes" }
+  }
+
+  const saved: SavedRecipe[] = []
+  for (const row of data) {
+    // Snapshots written by older versions may no longer match the schema
+    const recipe = recipeSchema.safeParse(row.recipe)
+    if (!recipe.success) {
+      console.error(`Skipping saved recipe ${row.id} with an invalid snapshot:`, recipe.error.issues)
+      continue
+    }
+    saved.push({
+      id: row.id,
+      recipe_id: row.recipe_id,
+      recipe: recipe.data,
+      saved_at: row.saved_at,
+      cookbook_ids: row.cookbook_recipes.map((entry) => entry.cookbook_id),
+    })
+  }
+  return { data: saved }
+}
+
+/** Ids of every recipe the user has saved, for showing favourite toggles. */
+export async function listSavedRecipeIds(): Promise<SavedActionResult<string[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view saved recipes" }
+
+  const { data, error } = await supabase
+    .from("saved_recipes")
+    .select("recipe_id")
+    .returns<Pick<SavedRecipeRow, "recipe_id">[]>()
+  if (error) {
+    console.error("Error loading saved recipe ids:", error)
+    return { error: "Could not load your saved recipes" }
+  }
+  return { data: data.map((row) => row.recipe_id) }
+}
+
+export async function isRecipeSaved(recipeId: string): Promise<boolean> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return false
+
+  const { count, error } = await supabase
+    .from("saved_recipes")
+    .select("id", { count: "exact", head: true })
+    .eq("recipe_id", recipeId)
+  if (error) console.error("Error checking saved recipe:", error)
+  return !!count
+}
+
+/** Saves a snapshot of the recipe, refreshing it if it was already saved. */
+export async function saveRecipe(recipe: Recipe): Promise<SavedActionResult> {
+  const parsed = recipeSchema.safeParse(recipe)
+  if (!parsed.success) return { error: "This recipe could not be saved" }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to save recipes" }
+
+  const { error } = await supabase
+    .from("saved_recipes")
+    .upsert(
+      { user_id: user.id, recipe_id: parsed.data.id, recipe: withoutRecipeMatch(parsed.data) },
+      { onConflict: "user_id,recipe_id" },
+    )
+  if (error) {
+    console.error("Error saving recipe:", error)
+    return { error: "Could not save the recipe" }
+  }
+
+  revalidatePath("/saved")
+  return { data: undefined }
+}
+
+export async function unsaveRecipe(recipeId: string): Promise<SavedActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to manage saved recipes" }
+
+  const { error } = await supabase.from("saved_recipes").delete().eq("recipe_id", recipeId)
+  if (error) {
+    console.error("Error removing saved recipe:", error)
+    return { error: "Could not remove the recipe" }
+  }
+
+  revalidatePath("/saved")
+  return { data: undefined }
+}
+
+export async function listCookbooks(): Promise<SavedActionResult<Cookbook[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view cookbooks" }
+
+  const { data, error } = await supabase
+    .from("cookbooks")
+    .select("*")
+    .order("name", { ascending: true })
+    .returns<Cookbook[]>()
+  if (error) {
+    console.error("Error loading cookbooks:", error)
+    return { error: "Could not load your cookbooks" }
+  }
+  return { data }
+}
+
+export async function createCookbook(name: string): Promise<SavedActionResult<Cookbook>> {
+  const parsed = cookbookNameSchema.safeParse(name)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to create cookbooks" }
+
+  const { data, error } = await supabase
+    .from("cookbooks")
+    .insert({ name: parsed.data, user_id: user.id })
+    .select()
+    .single<Cookbook>()
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return { error: `You already have a cookbook called "${parsed.data}"` }
+    console.error("Error creating cookbook:", error)
+    return { error: "Could not create the cookbook" }
+  }
+
+  revalidatePath("/saved")
+  return { data }
+}
+
+/** Deletes the cookbook only; the recipes in it stay saved. */
+export async function deleteCookbook(id: string): Promise<SavedActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to delete cookbooks" }
+
+  const { error } = await supabase.from("cookbooks").delete().eq("id", id)
+  if (error) {
+    console.error("Error deleting cookbook:", error)
+    return { error: "Could not delete the cookbook" }
+  }
+
+  revalidatePath("/saved")
+  return { data: undefined }
+}
+
+export async function setCookbookMembership(
+  savedRecipeId: string,
+  cookbookId: string,
+  member: boolean,
+): Promise<SavedActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to organise cookbooks" }
+
+  const { error } = member
+    ? await supabase
+        .from("cookbook_recipes")
+        .upsert(
+          { cookbook_id: cookbookId, saved_recipe_id: savedRecipeId, user_id: user.id },
+          { onConflict: "cookbook_id,saved_recipe_id", ignoreDuplicates: true },
+        )
+    : await supabase
+        .from("cookbook_recipes")
+        .delete()
+        .eq("cookbook_id", cookbookId)
+        .eq("saved_recipe_id", savedRecipeId)
+  if (error) {
+    console.error("Error updating cookbook:", error)
+    return { error: "Could not update the cookbook" }
+  }
+
+  revalidatePath("/saved")
+  return { data: undefined }
+}
@@ -0,0 +1,34 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { SavedRecipesManager } from "@/components/saved-recipes-manager"
+import { listCookbooks, listSavedRecipes } from "@/app/saved/actions"
+import { allergenSettingsFromMetadata } from "@/lib/profile/schemas"
+
+export default async function SavedRecipesPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/saved")
+  }
+
+  const [savedResult, cookbooksResult] = await Promise.all([listSavedRecipes(), listCookbooks()])
+
+  return (
+    <div className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Saved Recipes</h1>
+        <p className="text-muted-foreground">
+          Your favourite recipes, organised into cookbooks.
+        </p>
+      </div>
+      <SavedRecipesManager
+        initialSaved={savedResult.data ?? []}
+        initialCookbooks={cookbooksResult.data ?? []}
+        loadError={savedResult.error ?? cookbooksResult.error}
+        allergens={allergenSettingsFromMetadata(user.user_metadata).allergens}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { getAuthenticatedClient, type ActionResult } from "@/lib/supabase/actions"
+import { combineAmounts, mergeShoppingListEntries } from "@/lib/shopping-list/merge"
+import { shoppingListEntrySchema, type ShoppingListEntry, type ShoppingListItem } from "@/lib/shopping-list/schemas"
+
+export type ShoppingListActionResult<T = undefined> = ActionResult<T>
+
+export async function listShoppingListItems(): Promise<ShoppingListActionResult<ShoppingListItem[]>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to view your shopping list" }
+
+  const { data, error } = await supabase
+    .from("shopping_list_items")
+    .select("*")
+    .order("checked", { ascending: true })
+    .order("name", { ascending: true })
+    .returns<ShoppingListItem[]>()
+  if (error) {
+    console.error("Error loading shopping list:", error)
+    return { error: "Could not load your shopping list" }
+  }
+  return { data }
+}
+
+/**
+ * Adds entries to the list, folding them into unchecked rows for the same
+ * ingredient when the units can be added together. Returns how many rows were added or updated.
+ */
+export async function addToShoppingList(entries: ShoppingListEntry[]): Promise<ShoppingListActionResult<number>> {
+  const parsed = z.array(shoppingListEntrySchema).min(1, "Nothing to add").safeParse(entries)
+  if (!parsed.success) return { error: parsed.error.issues[0].message }
+
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to use the shopping list" }
+
+  const { data: existing, error: loadError } = await supabase
+    .from("shopping_list_items")
+    .select("*")
+    .eq("checked", false)
+    .returns<ShoppingListItem[]>()
+  if (loadError) {
+    console.error("Error loading shopping list:", loadError)
+    return { error: "Could not update your shopping list" }
+  }
+
+  const inserts = []
+  for (const entry of mergeShoppingListEntries(parsed.data)) {
+    const target = existing.find((item) => combineAmounts(item, entry) !== null)
+    if (!target) {
+      inserts.push({ ...entry, user_id: user.id })
+      continue
+    }
+
+    const { error } = await supabase
+      .from("shopping_list_items")
+      .update({
+        ...combineAmounts(target, entry),
+        recipe_names: Array.from(new Set([...target.recipe_names, ...entry.recipe_names])),
+      })
+      .eq("id", target.id)
+    if (error) {
+      console.error("Error updating shopping list item:", error)
+      return { error: "Could not update your shopping list" }
+    }
+  }
+
+  if (inserts.length) {
+    const { error } = await supabase.from("shopping_list_items").insert(inserts)
+    if (error) {
+      console.error("Error adding shopping list items:", error)
+      return { error: "Could not update your shopping list" }
+    }
+  }
+
+  revalidatePath("/shopping-list")
+  return { data: parsed.data.length }
+}
+
+export async function setShoppingListItemChecked(
+  id: string,
+  checked: boolean,
+): Promise<ShoppingListActionResult<ShoppingListItem>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to use the shopping list" }
+
+  const { data, error } = await supabase
+    .from("shopping_list_items")
+    .update({ checked })
+    .eq("id", id)
+    .select()
+    .single<ShoppingListItem>()
+  if (error) {
+    console.error("Error updating shopping list item:", error)
+    return { error: "Could not update the item" }
+  }
+
+  revalidatePath("/shopping-list")
+  return { data }
+}
+
+export async function deleteShoppingListItem(id: string): Promise<ShoppingListActionResult> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to use the shopping list" }
+
+  const { error } = await supabase.from("shopping_list_items").delete().eq("id", id)
+  if (error) {
+    console.error("Error deleting shopping list item:", error)
+    return { error: "Could not remove the item" }
+  }
+
+  revalidatePath("/shopping-list")
+  return { data: undefined }
+}
+
+/** Moves every checked item into the pantry and removes it from the list. */
+export async function moveCheckedToPantry(): Promise<ShoppingListActionResult<number>> {
+  const { supabase, user } = await getAuthenticatedClient()
+  if (!user) return { error: "You need to be signed in to use the shopping list" }
+
+  const { data: checked, error: loadError } = await supabase
+    .from("shopping_list_items")
+    .select("*")
+    .eq("checked", true)
+    .returns<ShoppingListItem[]>()
+  if (loadError) {
+    console.error("Error loading checked shopping list items:", loadError)
+    return { error: "Could not move items to your pantry" }
+  }
+  if (!checked.length) return { data: 0 }
+
+  const { error: insertError } = await supabase
+    .from("pantry_items")
+    .insert(checked.map(({ name, quantity, unit }) => ({ name, quantity, unit, user_id: user.id })))
+  if (insertError) {
+    console.error("Error adding shopping list items to pantry:", insertError)
+    return { error: "Could not move items to your pantry" }
+  }
+
+  const { error: deleteError } = await supabase
+    .from("shopping_list_items")
+    .delete()
+    .in(
+      "id",
+      checked.map((item) => item.id),
+    )
+  if (deleteError) {
+    console.error("Error clearing checked shopping list items:", deleteError)
+    return { error: "Items were added to your pantry but could not be removed from the list" }
+  }
+
+  revalidatePath("/shopping-list")
+  revalidatePath("/pantry")
+  return { data: checked.length }
+}
@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { ShoppingListManager } from "@/components/shopping-list-manager"
+import { listShoppingListItems } from "@/app/shopping-list/actions"
+
+export default async function ShoppingListPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    redirect("/auth/login?redirectedFrom=/shopping-list")
+  }
+
+  const result = await listShoppingListItems()
+
+  return (
+    <div className="flex-1 w-full max-w-4xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Shopping List</h1>
+        <p className="text-muted-foreground">
+          Everything your recipes still need, with duplicates across recipes merged.
+        </p>
+      </div>
+      <ShoppingListManager initialItems={result.data ?? []} loadError={result.error} />
+    </div>
+  )
+}
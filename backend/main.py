@@ -3,7 +3,7 @@ PantryIQ: Intelligent Recipe Navigator with Algorithmic Insights
 Main FastAPI application entry point
 """
 
-from fastapi import FastAPI, HTTPException, Depends
+from fastapi import FastAPI, HTTPException, Depends, Header
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.responses import JSONResponse
 import uvicorn
@@ -34,10 +34,12 @@ app = FastAPI(
 )
 
 # --- START: CORS Middleware for Frontend Integration (FIXED) ---
-# ALLOWING the live Render domain for the frontend to prevent CORS errors
+# The Next.js frontend proxies requests server-side (app/api), so CORS only
+# matters for direct browser access such as the interactive docs.
+cors_origins = os.getenv("CORS_ALLOWED_ORIGINS", "http://localhost:3000,https://pantryiq.onrender.com")
 app.add_middleware(
     CORSMiddleware,
-    allow_origins=["http://localhost:3000", "https://pantryiq.onrender.com"],
+    allow_origins=[origin.strip() for origin in cors_origins.split(",") if origin.strip()],
     allow_credentials=True,
     allow_methods=["*"],
     allow_headers=["*"],
@@ -53,6 +55,10 @@ algorithm_service = AlgorithmService(graph_service)
 # Inject dependencies
 algorithm_service.set_recipe_service(recipe_service)
 
+def get_user_id(x_pantryiq_user_id: Optional[str] = Header(None)) -> Optional[str]:
+    """Supabase user id attached by the frontend proxy (None for anonymous calls)"""
+    return x_pantryiq_user_id
+
 @app.on_event("startup")
 async def startup_event():
     """Initialize services on startup"""
@@ -80,7 +86,7 @@ async def health_check():
     }
 
 @app.post("/api/recipes/suggest", response_model=List[RecipeResponse])
-async def suggest_recipes(request: RecipeRequest) -> List[RecipeResponse]:
+async def suggest_recipes(request: RecipeRequest, user_id: Optional[str] = Depends(get_user_id)) -> List[RecipeResponse]:
     """
     INTELLIGENT RECIPE SUGGESTIONS using Graph Theory, Backtracking & Greedy Algorithms
     
@@ -90,7 +96,7 @@ async def suggest_recipes(request: RecipeRequest) -> List[RecipeResponse]:
     - BACK TRACKING: Optimal recipe combination selection with constraints
     """
     try:
-        logger.info(f"Recipe suggestion request: {len(request.available_ingredients)} ingredients")
+        logger.info(f"Recipe suggestion request: {len(request.available_ingredients)} ingredients (user: {user_id or 'anonymous'})")
         
         # Use the enhanced recipe service with integrated algorithms
         raw_recipes = await recipe_service.search_recipes_with_algorithms(
@@ -187,6 +193,18 @@ async def get_ingredient_substitutions(ingredient: str, limit: int = 5):
         logger.error(f"Error finding substitutions: {str(e)}")
         raise HTTPException(status_code=500, detail=str(e))
 
+@app.get("/api/ingredients/graph")
+async def get_ingredient_graph():
+    """
+    Export the ingredient relationship graph (nodes with centrality, typed edges)
+    """
+    try:
+        return graph_service.export_graph()
+        
+    except Exception as e:
+        logger.error(f"Error exporting ingredient graph: {str(e)}")
+        raise HTTPException(status_code=500, detail=str(e))
+
 @app.get("/api/recipes/search")
 async def search_recipes(
     query: Optional[str] = None,
@@ -227,6 +245,23 @@ async def search_recipes(
         logger.error(f"Error searching recipes: {str(e)}")
         raise HTTPException(status_code=500, detail=str(e))
 
+@app.get("/api/recipes/{recipe_id}")
+async def get_recipe(recipe_id: str):
+    """
+    Get a single recipe by ID (used by the frontend recipe detail page)
+    """
+    try:
+        recipe = await recipe_service.simple_service.get_by_id(recipe_id)
+        if not recipe:
+            recipe = await recipe_service.get_recipe_by_id(recipe_id)
+    except Exception as e:
+        logger.error(f"Error loading recipe {recipe_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=str(e))
+    
+    if not recipe:
+        raise HTTPException(status_code=404, detail=f"Recipe {recipe_id} not found")
+    return recipe
+
 @app.get("/api/algorithms/demo")
 async def get_algorithm_demonstration():
     """
@@ -278,6 +278,34 @@ class IngredientGraphService:
             "pagerank": node_data.get('pagerank', 0)
         }
     
+    def export_graph(self) -> Dict[str, List[Dict]]:
+        """
+        Export the ingredient graph as plain nodes and edges for visualisation
+        
+        Nodes carry their category and centrality measures; edges their
+        relationship type and weight (similarity for substitutions)
+        """
+        nodes = [
+            {
+                "id": node,
+                "category": data.get('category', "unknown"),
+                "degree_centrality": data.get('degree_centrality', 0),
+                "betweenness_centrality": data.get('betweenness_centrality', 0),
+                "pagerank": data.get('pagerank', 0)
+            }
+            for node, data in self.ingredient_graph.nodes(data=True)
+        ]
+        edges = [
+            {
+                "source": source,
+                "target": target,
+                "relationship_type": data.get('relationship_type', "unknown"),
+                "weight": data.get('weight', 0)
+            }
+            for source, target, data in self.ingredient_graph.edges(data=True)
+        ]
+        return {"nodes": nodes, "edges": edges}
+    
     def is_healthy(self) -> bool:
         """Check if the graph service is healthy"""
         return (
@@ -210,6 +210,15 @@ class IndianRecipeService:
         logger.info(f"✅ Found {len(matched_recipes)} recipes for '{query}'")
         return matched_recipes[:limit]
     
+    def get_by_id(self, recipe_id: str) -> Optional[Dict]:
+        """Look up a single recipe by its dataset serial number"""
+        for recipe in self.recipes:
+            if recipe.get('Srno') == recipe_id:
+                formatted = self._format_recipe(recipe)
+                formatted['algorithm_used'] = 'indian_dataset_lookup'
+                return formatted
+        return None
+    
     def get_random_recipes(self, count: int = 20) -> List[Dict]:
         """Get featured famous Indian recipes"""
         if not self.recipes:
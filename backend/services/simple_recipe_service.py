@@ -80,6 +80,14 @@ class SimpleRecipeService:
         logger.info(f"⚡ Returning {len(result)} featured recipes (instant)")
         return result
     
+    async def get_by_id(self, recipe_id: str) -> Optional[Dict]:
+        """Get a single recipe by ID - FAST"""
+        recipe = self.indian_service.get_by_id(recipe_id)
+        if not recipe:
+            return None
+        
+        return self._enhance_with_accurate_images([recipe])[0]
+    
     def _enhance_with_accurate_images(self, recipes: List[Dict]) -> List[Dict]:
         """Enhance recipes with accurate, recipe-specific images (OPTIMIZED)"""
         for recipe in recipes:
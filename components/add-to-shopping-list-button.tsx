@@ -0,0 +1,45 @@
+"use client"
+
+import { useTransition, type ComponentProps } from "react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { addToShoppingList } from "@/app/shopping-list/actions"
+import type { Recipe } from "@/lib/api/schemas"
+import { missingIngredientEntries } from "@/lib/shopping-list/merge"
+
+interface AddToShoppingListButtonProps extends Pick<ComponentProps<typeof Button>, "variant" | "size" | "className"> {
+  recipe: Recipe
+}
+
+/** Adds a recipe's missing ingredients to the signed-in user's shopping list. */
+export function AddToShoppingListButton({
+  recipe,
+  variant = "outline",
+  size = "sm",
+  className,
+}: AddToShoppingListButtonProps) {
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const handleAdd = () => {
+    const entries = missingIngredientEntries(recipe)
+    if (!entries.length) return
+    startTransition(async () => {
+      const result = await addToShoppingList(entries)
+      if (result.error !== undefined) {
+        toast({ title: "Shopping List Error", description: result.error, variant: "destructive" })
+        return
+      }
+      toast({
+        title: "🛒 Added to Shopping List",
+        description: `${result.data} missing ingredient${result.data === 1 ? "" : "s"} from ${recipe.name}.`,
+      })
+    })
+  }
+
+  return (
+    <Button variant={variant} size={size} className={className} onClick={handleAdd} disabled={pending}>
+      {pending ? "Adding..." : "🛒 Add Missing to List"}
+    </Button>
+  )
+}
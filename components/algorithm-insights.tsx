@@ -0,0 +1,276 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { format } from "date-fns"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { useToast } from "@/hooks/use-toast"
+import { getAlgorithmDemo, suggestRecipes } from "@/lib/api/client"
+import { isBackendUnavailable } from "@/lib/api/errors"
+import type { AlgorithmDemo } from "@/lib/api/schemas"
+import {
+  algorithmCounters,
+  algorithmStatsFromDemo,
+  hasRecentActivity,
+  metricsIntervals,
+  type MetricsSample,
+} from "@/lib/insights/metrics"
+import { subscribeToSearchActivity } from "@/lib/insights/search-activity"
+
+// Poll fast while something is happening, slowly otherwise
+const LIVE_INTERVAL_MS = 1500
+const IDLE_INTERVAL_MS = 5000
+const MAX_SAMPLES = 40
+
+const SAMPLE_INGREDIENTS = ["onion", "tomato", "rice", "potato", "paneer", "garlic"]
+
+const countsConfig = {
+  graph_traversals: { label: "Graph traversals", color: "hsl(var(--chart-1))" },
+  greedy_selections: { label: "Greedy selections", color: "hsl(var(--chart-2))" },
+  backtracking_calls: { label: "Backtracking calls", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig
+
+const timeConfig = {
+  execution_ms: { label: "Execution time (ms)", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+const algorithmTitles: Record<string, string> = {
+  graph_theory: "Graph Theory",
+  backtracking: "Backtracking",
+  greedy_algorithm: "Greedy Algorithm",
+}
+
+const formatClock = (at: number) => format(at, "HH:mm:ss")
+
+export function AlgorithmInsights() {
+  const [demo, setDemo] = useState<AlgorithmDemo | null>(null)
+  const [samples, setSamples] = useState<MetricsSample[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [remoteSearching, setRemoteSearching] = useState(false)
+  const [sampleSearching, setSampleSearching] = useState(false)
+  const samplesRef = useRef<MetricsSample[]>([])
+  const { toast } = useToast()
+
+  const searching = remoteSearching || sampleSearching
+  const live = searching || hasRecentActivity(samples)
+
+  useEffect(() => subscribeToSearchActivity(setRemoteSearching), [])
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const next = await getAlgorithmDemo({ timeoutMs: 10000 })
+        if (cancelled) return
+        const updated = [...samplesRef.current, { at: Date.now(), stats: algorithmStatsFromDemo(next) }].slice(-MAX_SAMPLES)
+        samplesRef.current = updated
+        setSamples(updated)
+        setDemo(next)
+        setError(null)
+      } catch (pollError) {
+        if (cancelled) return
+        console.error("Error loading algorithm metrics:", pollError)
+        setError(
+          isBackendUnavailable(pollError)
+            ? "The recipe server isn't reachable. Retrying…"
+            : "Couldn't read the algorithm metrics. Retrying…",
+        )
+      }
+      if (!cancelled) timer = setTimeout(poll, live ? LIVE_INTERVAL_MS : IDLE_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [live])
+
+  const runSampleSearch = async () => {
+    setSampleSearching(true)
+    try {
+      const recipes = await suggestRecipes({ available_ingredients: SAMPLE_INGREDIENTS, max_recipes: 10 })
+      toast({ title: "Sample Search Finished", description: `${recipes.length} recipes suggested.` })
+    } catch (searchError) {
+      console.error("Error running sample search:", searchError)
+      toast({ title: "Insights Error", description: "The sample search failed.", variant: "destructive" })
+    } finally {
+      setSampleSearching(false)
+    }
+  }
+
+  const intervals = metricsIntervals(samples).map((interval) => ({ ...interval, time: formatClock(interval.at) }))
+  const latest = samples[samples.length - 1]?.stats
+  const graphMetrics = demo?.graph_theory_example.metrics as Record<string, unknown> | undefined
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {live ? (
+            <Badge className="gap-2">
+              <span className="h-2 w-2 rounded-full bg-green-400 animate-pulse" />
+              {searching ? "Search running" : "Live"}
+            </Badge>
+          ) : (
+            <Badge variant="outline">Idle</Badge>
+          )}
+          <span className="text-sm text-muted-foreground">
+            Updates every {(live ? LIVE_INTERVAL_MS : IDLE_INTERVAL_MS) / 1000}s
+            {samples.length > 0 && ` · last at ${formatClock(samples[samples.length - 1].at)}`}
+          </span>
+        </div>
+        <Button variant="outline" onClick={runSampleSearch} disabled={sampleSearching}>
+          {sampleSearching ? "Searching..." : "Run a sample search"}
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-4 text-sm text-orange-700">{error}</CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {algorithmCounters.map((counter) => (
+          <Card key={counter}>
+            <CardHeader className="pb-2">
+              <CardDescription>{countsConfig[counter].label}</CardDescription>
+              <CardTitle className="text-3xl">{latest ? latest[counter].toLocaleString() : "—"}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total execution time</CardDescription>
+            <CardTitle className="text-3xl">{latest ? `${latest.total_execution_time.toFixed(2)} s` : "—"}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Execution time</CardTitle>
+            <CardDescription>Time spent in the algorithms between updates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {intervals.length > 0 ? (
+              <ChartContainer config={timeConfig} className="h-[250px] w-full">
+                <AreaChart data={intervals} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Area
+                    dataKey="execution_ms"
+                    type="monotone"
+                    stroke="var(--color-execution_ms)"
+                    fill="var(--color-execution_ms)"
+                    fillOpacity={0.3}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            ) : (
+              <ChartPlaceholder />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Algorithm calls</CardTitle>
+            <CardDescription>Calls of each algorithm between updates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {intervals.length > 0 ? (
+              <ChartContainer config={countsConfig} className="h-[250px] w-full">
+                <BarChart data={intervals} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+                  <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {algorithmCounters.map((counter) => (
+                    <Bar
+                      key={counter}
+                      dataKey={counter}
+                      stackId="calls"
+                      fill={`var(--color-${counter})`}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <ChartPlaceholder />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {demo && (
+        <div className="grid gap-6 lg:grid-cols-3">
+          {Object.entries(demo.algorithm_explanations ?? {}).map(([key, explanation]) => (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle>{algorithmTitles[key] ?? key.replace(/_/g, " ")}</CardTitle>
+                <CardDescription>{explanation.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <Badge variant="secondary" className="font-mono">
+                  {explanation.complexity}
+                </Badge>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {explanation.applications.map((application) => (
+                    <li key={application}>{application}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {demo && (graphMetrics || demo.real_time_stats) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Engine</CardTitle>
+            <CardDescription>Ingredient graph and request statistics</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-x-8 gap-y-2 sm:grid-cols-2 text-sm">
+              {Object.entries({ ...graphMetrics, ...demo.real_time_stats }).map(([key, value]) => (
+                <div key={key} className="flex justify-between border-b py-1">
+                  <dt className="text-muted-foreground capitalize">{key.replace(/_/g, " ")}</dt>
+                  <dd className="font-medium">{String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+function ChartPlaceholder() {
+  return (
+    <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+      Waiting for the next update…
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/hooks/use-toast"
+import { updateAllergenSettings } from "@/app/profile/actions"
+import { allergenTaxonomy, allergens, type Allergen } from "@/lib/allergens/taxonomy"
+import type { AllergenSettings } from "@/lib/profile/schemas"
+
+interface AllergenSettingsFormProps {
+  initialSettings: AllergenSettings
+}
+
+export function AllergenSettingsForm({ initialSettings }: AllergenSettingsFormProps) {
+  const [settings, setSettings] = useState(initialSettings)
+  const [savedSettings, setSavedSettings] = useState(initialSettings)
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const dirty = JSON.stringify(settings) !== JSON.stringify(savedSettings)
+
+  const toggleAllergen = (allergen: Allergen, checked: boolean) => {
+    const selected = checked ? [...settings.allergens, allergen] : settings.allergens.filter((existing) => existing !== allergen)
+    setSettings({ ...settings, allergens: allergens.filter((candidate) => selected.includes(candidate)) })
+  }
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateAllergenSettings(settings)
+      if (result.error !== undefined) {
+        toast({ title: "Profile Error", description: result.error, variant: "destructive" })
+        return
+      }
+      setSavedSettings(result.data)
+      toast({
+        title: "Allergens Saved",
+        description: result.data.allergens.length
+          ? result.data.allergens.map((allergen) => allergenTaxonomy[allergen].label).join(", ")
+          : "No allergens",
+      })
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Allergens</CardTitle>
+        <CardDescription>
+          Recipes containing these are flagged with the ingredients responsible. Detection works from ingredient names,
+          so always check packaged ingredients yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {allergens.map((allergen) => (
+            <div key={allergen} className="flex items-center gap-2">
+              <Checkbox
+                id={`allergen-${allergen}`}
+                checked={settings.allergens.includes(allergen)}
+                onCheckedChange={(checked) => toggleAllergen(allergen, checked === true)}
+                disabled={pending}
+              />
+              <Label htmlFor={`allergen-${allergen}`} className="font-normal">
+                {allergenTaxonomy[allergen].label}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="hide-allergen-recipes">Hide affected recipes</Label>
+            <p className="text-sm text-muted-foreground">Leave them out of dashboard results instead of only flagging them.</p>
+          </div>
+          <Switch
+            id="hide-allergen-recipes"
+            checked={settings.hide_recipes}
+            onCheckedChange={(hide_recipes) => setSettings({ ...settings, hide_recipes })}
+            disabled={pending}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={handleSave} disabled={pending || !dirty}>
+          {pending ? "Saving..." : "Save Allergens"}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge"
+import { allergenTaxonomy, type AllergenMatch } from "@/lib/allergens/taxonomy"
+
+interface AllergenWarningProps {
+  matches: AllergenMatch[]
+  className?: string
+}
+
+/** One badge per allergen, naming the ingredients that contain it. */
+export function AllergenWarning({ matches, className }: AllergenWarningProps) {
+  if (!matches.length) return null
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ""}`}>
+      {matches.map((match) => (
+        <Badge
+          key={match.allergen}
+          variant="destructive"
+          className="text-xs"
+          title={`Contains ${allergenTaxonomy[match.allergen].label.toLowerCase()}: ${match.ingredients.join(", ")}`}
+        >
+          ⚠️ {allergenTaxonomy[match.allergen].label}: {match.ingredients.join(", ")}
+        </Badge>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { DietaryPreferencesPicker } from "@/components/dietary-preferences-picker"
+import { describeDietaryProfile, type DietaryProfile } from "@/lib/profile/schemas"
+
+interface DietaryOverrideProps {
+  profile: DietaryProfile
+  /** Preferences for the next searches only; null uses the profile. */
+  override: DietaryProfile | null
+  onOverrideChange: (override: DietaryProfile | null) => void
+}
+
+export function DietaryOverride({ profile, override, onOverrideChange }: DietaryOverrideProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          🥗 {describeDietaryProfile(override ?? profile)}
+          {override && (
+            <Badge variant="secondary" className="text-xs">
+              This search
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="start">
+        <div className="space-y-1">
+          <p className="font-medium">Diet &amp; cuisine for this search</p>
+          <p className="text-sm text-muted-foreground">
+            Your{" "}
+            <Link href="/profile" className="underline">
+              profile
+            </Link>{" "}
+            is used unless you change it here.
+          </p>
+        </div>
+        <DietaryPreferencesPicker value={override ?? profile} onChange={onOverrideChange} idPrefix="search-diet" />
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => onOverrideChange(null)} disabled={!override}>
+          Reset to my profile
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cuisineTypes, dietaryRestrictions, type CuisineType, type DietaryRestriction } from "@/lib/api/schemas"
+import type { DietaryProfile } from "@/lib/profile/schemas"
+
+interface DietaryPreferencesPickerProps {
+  value: DietaryProfile
+  onChange: (value: DietaryProfile) => void
+  /** Keeps checkbox ids unique when the picker appears twice on a page. */
+  idPrefix: string
+  disabled?: boolean
+}
+
+// Radix Select can't use an empty string as an item value
+const ANY_CUISINE = "any"
+
+export function DietaryPreferencesPicker({ value, onChange, idPrefix, disabled }: DietaryPreferencesPickerProps) {
+  const toggleRestriction = (restriction: DietaryRestriction, checked: boolean) => {
+    const restrictions = checked
+      ? [...value.dietary_restrictions, restriction]
+      : value.dietary_restrictions.filter((existing) => existing !== restriction)
+    // Keep the canonical order so the first restriction is predictable
+    onChange({
+      ...value,
+      dietary_restrictions: dietaryRestrictions.filter((candidate) => restrictions.includes(candidate)),
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Diet</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {dietaryRestrictions.map((restriction) => (
+            <div key={restriction} className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-${restriction}`}
+                checked={value.dietary_restrictions.includes(restriction)}
+                onCheckedChange={(checked) => toggleRestriction(restriction, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`${idPrefix}-${restriction}`} className="font-normal capitalize">
+                {restriction}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-cuisine`}>Cuisine</Label>
+        <Select
+          value={value.cuisine_preference ?? ANY_CUISINE}
+          onValueChange={(cuisine) =>
+            onChange({ ...value, cuisine_preference: cuisine === ANY_CUISINE ? null : (cuisine as CuisineType) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-cuisine`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_CUISINE}>Any cuisine</SelectItem>
+            {cuisineTypes.map((cuisine) => (
+              <SelectItem key={cuisine} value={cuisine} className="capitalize">
+                {cuisine}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
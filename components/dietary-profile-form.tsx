@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { DietaryPreferencesPicker } from "@/components/dietary-preferences-picker"
+import { updateDietaryProfile } from "@/app/profile/actions"
+import { describeDietaryProfile, emptyDietaryProfile, type DietaryProfile } from "@/lib/profile/schemas"
+
+interface DietaryProfileFormProps {
+  initialProfile: DietaryProfile
+}
+
+export function DietaryProfileForm({ initialProfile }: DietaryProfileFormProps) {
+  const [profile, setProfile] = useState(initialProfile)
+  const [savedProfile, setSavedProfile] = useState(initialProfile)
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const dirty = JSON.stringify(profile) !== JSON.stringify(savedProfile)
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateDietaryProfile(profile)
+      if (result.error !== undefined) {
+        toast({ title: "Profile Error", description: result.error, variant: "destructive" })
+        return
+      }
+      setSavedProfile(result.data)
+      toast({ title: "Profile Saved", description: describeDietaryProfile(result.data) })
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dietary Preferences</CardTitle>
+        <CardDescription>
+          Applied to every recipe suggestion and search. You can still override them for a single search on the
+          dashboard.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <DietaryPreferencesPicker value={profile} onChange={setProfile} idPrefix="profile" disabled={pending} />
+      </CardContent>
+      <CardFooter className="justify-between gap-2">
+        <Button variant="ghost" onClick={() => setProfile(emptyDietaryProfile)} disabled={pending}>
+          Clear
+        </Button>
+        <Button onClick={handleSave} disabled={pending || !dirty}>
+          {pending ? "Saving..." : "Save Preferences"}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { Heart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { saveRecipe, unsaveRecipe } from "@/app/saved/actions"
+import type { Recipe } from "@/lib/api/schemas"
+import { cn } from "@/lib/utils"
+
+interface FavouriteButtonProps {
+  recipe: Recipe
+  saved: boolean
+  onSavedChange?: (saved: boolean) => void
+  className?: string
+}
+
+/** Heart toggle that saves or unsaves a recipe for the signed-in user. */
+export function FavouriteButton({ recipe, saved: initialSaved, onSavedChange, className }: FavouriteButtonProps) {
+  const [saved, setSaved] = useState(initialSaved)
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setSaved(initialSaved)
+  }, [initialSaved])
+
+  const handleToggle = () => {
+    const next = !saved
+    setSaved(next)
+    startTransition(async () => {
+      const result = next ? await saveRecipe(recipe) : await unsaveRecipe(recipe.id)
+      if (result.error !== undefined) {
+        setSaved(!next)
+        toast({ title: "Saved Recipes Error", description: result.error, variant: "destructive" })
+        return
+      }
+      onSavedChange?.(next)
+    })
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={cn("shrink-0", className)}
+      onClick={handleToggle}
+      disabled={pending}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from saved recipes" : "Save recipe"}
+      title={saved ? "Remove from saved recipes" : "Save recipe"}
+    >
+      <Heart className={cn("h-5 w-5", saved ? "fill-red-500 text-red-500" : "text-muted-foreground")} />
+    </Button>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useState } from "react"
+import { FileDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import type { Recipe } from "@/lib/api/schemas"
+import { RecipeImportError, importRecipe } from "@/lib/recipes/import"
+
+interface ImportRecipeDialogProps {
+  onImport: (recipe: Recipe) => void
+  defaultOpen?: boolean
+}
+
+/** Paste-only import of a schema.org Recipe; the result goes to the editor for review. */
+export function ImportRecipeDialog({ onImport, defaultOpen = false }: ImportRecipeDialogProps) {
+  const [open, setOpen] = useState(defaultOpen)
+  const [pasted, setPasted] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleImport = () => {
+    try {
+      onImport(importRecipe(pasted))
+      setOpen(false)
+      setPasted("")
+      setError(null)
+    } catch (importError) {
+      if (!(importError instanceof RecipeImportError)) throw importError
+      setError(importError.message)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          <FileDown className="mr-2 h-4 w-4" />
+          Import from Page
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import a Recipe</DialogTitle>
+          <DialogDescription>
+            Paste the HTML source of a recipe page, or just its schema.org JSON-LD. Nothing is downloaded; only the
+            pasted text is read. You can review everything before saving.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          rows={12}
+          className="font-mono text-xs"
+          placeholder={'<script type="application/ld+json">{ "@type": "Recipe", ... }</script>'}
+          value={pasted}
+          onChange={(e) => {
+            setPasted(e.target.value)
+            setError(null)
+          }}
+        />
+        {error && <p className="text-destructive text-sm">{error}</p>}
+        <DialogFooter>
+          <Button type="button" onClick={handleImport} disabled={!pasted.trim()}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
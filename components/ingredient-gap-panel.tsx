@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { PolarAngleAxis, RadialBar, RadialBarChart } from "recharts"
+import { AddToShoppingListButton } from "@/components/add-to-shopping-list-button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { analyzeIngredientGap, getIngredientSubstitutions } from "@/lib/api/client"
+import { isAbortError, isBackendUnavailable } from "@/lib/api/errors"
+import type { GraphSubstitution, Recipe } from "@/lib/api/schemas"
+import { normaliseIngredients } from "@/lib/ingredients/vocabulary"
+import { formatPrice } from "@/lib/pricing/database"
+import { analyseIngredientGap, type GapAnalysis, type GapSources, type GapStatus } from "@/lib/recipes/gap"
+import { recallSearchIngredients } from "@/lib/recipes/match-context"
+import { hasIngredient } from "@/lib/recipes/substitutions"
+
+interface IngredientGapPanelProps {
+  /** The recipe at the servings shown, so "add to shopping list" uses the same amounts. */
+  recipe: Recipe
+  /** Names of the signed-in user's pantry items. */
+  pantryIngredients: readonly string[]
+}
+
+type IngredientSource = "pantry" | "search"
+
+type PanelState =
+  | { status: "loading" }
+  | { status: "ready"; analysis: GapAnalysis; note?: string }
+
+const chartConfig = {
+  feasibility: { label: "Feasibility", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const statusSections: { status: GapStatus; title: string; className: string }[] = [
+  { status: "have", title: "✓ Have", className: "bg-green-50 border-green-200 text-green-700" },
+  { status: "substitute", title: "🔄 Substitute", className: "bg-blue-50 border-blue-200 text-blue-700" },
+  { status: "buy", title: "🛒 Buy", className: "bg-orange-50 border-orange-200 text-orange-700" },
+]
+
+function feasibilityLabel(feasibility: number): string {
+  if (feasibility >= 1) return "You can make this now"
+  if (feasibility >= 0.8) return "Nearly there"
+  if (feasibility >= 0.5) return "A short shop away"
+  return "Needs a proper shop"
+}
+
+export function IngredientGapPanel({ recipe, pantryIngredients }: IngredientGapPanelProps) {
+  const [searchIngredients, setSearchIngredients] = useState<string[]>([])
+  const [source, setSource] = useState<IngredientSource>("pantry")
+  const [state, setState] = useState<PanelState>({ status: "loading" })
+
+  useEffect(() => {
+    // sessionStorage isn't available during the server render
+    const recalled = recallSearchIngredients()
+    setSearchIngredients(recalled)
+    if (!pantryIngredients.length && recalled.length) setSource("search")
+  }, [pantryIngredients.length])
+
+  // Canonical names, so a pantry item called "aloo" counts as the recipe's potato
+  const available = normaliseIngredients(source === "pantry" ? pantryIngredients : searchIngredients)
+  // Re-run only when the names change, not on every servings change
+  const ingredientKey = recipe.ingredients.map((ingredient) => ingredient.name).join("|")
+  const availableKey = available.join("|")
+
+  useEffect(() => {
+    if (!available.length) {
+      setState({ status: "ready", analysis: analyseIngredientGap(recipe, available) })
+      return
+    }
+
+    const controller = new AbortController()
+    const run = async () => {
+      setState({ status: "loading" })
+      const sources: GapSources = {}
+      let note: string | undefined
+      try {
+        sources.gap = await analyzeIngredientGap(
+          { available_ingredients: available, target_recipe_id: recipe.id },
+          { signal: controller.signal },
+        )
+      } catch (error) {
+        if (isAbortError(error)) return
+        if (isBackendUnavailable(error)) {
+          note = "The recipe server isn't reachable, so only this recipe's own substitution suggestions are used."
+        } else {
+          // The server only analyses its own recipes; ask the ingredient graph directly instead
+          sources.substitutions = await loadSubstitutions(recipe, available, controller.signal)
+        }
+      }
+      if (controller.signal.aborted) return
+      setState({ status: "ready", analysis: analyseIngredientGap(recipe, available, sources), note })
+    }
+    run()
+    return () => controller.abort()
+  }, [recipe.id, ingredientKey, availableKey])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl">Can I make this?</CardTitle>
+          <CardDescription>
+            {source === "pantry" ? "Checked against your pantry" : "Checked against the ingredients you last searched with"}
+          </CardDescription>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={source}
+          onValueChange={(value) => value && setSource(value as IngredientSource)}
+          aria-label="Ingredients to check against"
+        >
+          <ToggleGroupItem value="pantry">Pantry</ToggleGroupItem>
+          <ToggleGroupItem value="search" disabled={!searchIngredients.length}>
+            Last search
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        {state.status === "loading" ? (
+          <div className="grid gap-6 md:grid-cols-[200px_1fr]">
+            <Skeleton className="h-[110px] w-full" />
+            <Skeleton className="h-[110px] w-full" />
+          </div>
+        ) : (
+          <GapBreakdown recipe={recipe} analysis={state.analysis} note={state.note} empty={!available.length} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+async function loadSubstitutions(
+  recipe: Recipe,
+  available: readonly string[],
+  signal: AbortSignal,
+): Promise<Record<string, GraphSubstitution[]>> {
+  const missing = recipe.ingredients
+    .map((ingredient) => ingredient.name)
+    .filter((name) => name.trim() && !hasIngredient(available, name))
+  const results = await Promise.allSettled(missing.map((name) => getIngredientSubstitutions(name, 3, { signal })))
+
+  const substitutions: Record<string, GraphSubstitution[]> = {}
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") substitutions[missing[index]] = result.value.substitutions
+    else if (!isAbortError(result.reason)) console.error("Error loading substitutions:", result.reason)
+  })
+  return substitutions
+}
+
+interface GapBreakdownProps {
+  recipe: Recipe
+  analysis: GapAnalysis
+  note?: string
+  /** No ingredients to check against. */
+  empty: boolean
+}
+
+function GapBreakdown({ recipe, analysis, note, empty }: GapBreakdownProps) {
+  const percentage = Math.round(analysis.feasibility * 100)
+  const toBuy = analysis.items.filter((item) => item.status === "buy")
+  const shoppingRecipe = { ...recipe, missing_ingredients: toBuy.map((item) => item.ingredient) }
+
+  return (
+    <div className="space-y-6">
+      {empty && (
+        <p className="text-sm text-muted-foreground">
+          Nothing to check against yet. Add items to your pantry, or search by ingredients on the dashboard.
+        </p>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-[200px_1fr] items-center">
+        <div className="relative">
+          <ChartContainer config={chartConfig} className="mx-auto aspect-auto h-[110px] w-[200px]">
+            <RadialBarChart
+              data={[{ name: "feasibility", value: percentage, fill: "var(--color-feasibility)" }]}
+              startAngle={180}
+              endAngle={0}
+              cy="100%"
+              innerRadius={70}
+              outerRadius={100}
+            >
+              <PolarAngleAxis type="number" domain={[0, 100]} tick={false} axisLine={false} />
+              <RadialBar dataKey="value" background cornerRadius={6} />
+            </RadialBarChart>
+          </ChartContainer>
+          <div className="absolute inset-x-0 bottom-0 text-center">
+            <p className="text-3xl font-bold">{percentage}%</p>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <p className="text-lg font-semibold">{feasibilityLabel(analysis.feasibility)}</p>
+          <p className="text-sm text-muted-foreground">
+            {analysis.items.length - toBuy.length} of {analysis.items.length} ingredients covered
+          </p>
+          {toBuy.length > 0 && (
+            <p className="text-sm">
+              Estimated extra cost:{" "}
+              <span className="font-semibold">≈ {formatPrice(analysis.extraCost)}</span>
+              {analysis.unpriced.length > 0 && (
+                <span className="text-muted-foreground"> plus {analysis.unpriced.length} unpriced</span>
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {statusSections.map(({ status, title, className }) => {
+          const items = analysis.items.filter((item) => item.status === status)
+          return (
+            <div key={status} className={`p-3 border rounded-lg ${className}`}>
+              <p className="font-semibold mb-2">
+                {title} ({items.length})
+              </p>
+              {items.length === 0 ? (
+                <p className="text-sm opacity-75">None</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {items.map((item) => (
+                    <li key={item.ingredient}>
+                      <span className="capitalize">{item.ingredient}</span>
+                      {item.substitute && (
+                        <span className="block text-xs opacity-90">
+                          Use <span className="font-medium">{item.substitute.name}</span>
+                          {item.substitute.similarity !== null && ` · ${Math.round(item.substitute.similarity * 100)}% similar`}
+                          {item.substitute.categoryMatch && " · same category"}
+                          <span className="block opacity-75">{item.substitute.reason}</span>
+                        </span>
+                      )}
+                      {status === "buy" && (
+                        <span className="block text-xs opacity-90">
+                          {item.cost !== null ? `≈ ${formatPrice(item.cost)} for ${item.pack}` : "Price unknown"}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {toBuy.length > 0 && <AddToShoppingListButton recipe={shoppingRecipe} className="w-full" />}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        {analysis.feasibilitySource === "server" && (
+          <Badge variant="outline" className="text-xs">
+            Score from the recipe server
+          </Badge>
+        )}
+        {analysis.costSource === "local" && toBuy.length > 0 && (
+          <Badge variant="outline" className="text-xs">
+            Prices are typical smallest-pack prices
+          </Badge>
+        )}
+        {note && <span>{note}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { getIngredientGraph } from "@/lib/api/client"
+import { isBackendUnavailable } from "@/lib/api/errors"
+import type { IngredientGraph, IngredientGraphEdge } from "@/lib/api/schemas"
+import {
+  centralityLabels,
+  centralityMetrics,
+  expandNeighbours,
+  findGraphNodes,
+  graphEdgeLabels,
+  graphEdgeTypes,
+  layoutLinks,
+  mostCentralNode,
+  neighbourEdges,
+  nodeRadius,
+  otherEnd,
+  visibleEdges,
+  type CentralityMetric,
+  type GraphEdgeType,
+} from "@/lib/graph/explorer"
+import { ALPHA_DECAY, ALPHA_MIN, layoutBounds, seedLayout, settleLayout, tickLayout, type Layout } from "@/lib/graph/layout"
+
+type Hover = { kind: "node"; id: string } | { kind: "edge"; edge: IngredientGraphEdge }
+
+const edgeStyles: Record<GraphEdgeType, { stroke: string; dash?: string }> = {
+  substitution: { stroke: "hsl(var(--chart-1))" },
+  complementary: { stroke: "hsl(var(--chart-2))" },
+  category: { stroke: "hsl(var(--muted-foreground))", dash: "4 4" },
+}
+
+const categoryColour = (index: number) => `hsl(var(--chart-${(index % 5) + 1}))`
+
+const formatScore = (value: number) => value.toFixed(3)
+
+export function IngredientGraphExplorer() {
+  const [graph, setGraph] = useState<IngredientGraph | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [edgeTypes, setEdgeTypes] = useState<GraphEdgeType[]>(["substitution", "complementary"])
+  const [metric, setMetric] = useState<CentralityMetric>("pagerank")
+  const [visible, setVisible] = useState<Set<string>>(new Set())
+  const [selected, setSelected] = useState<string | null>(null)
+  const [hovered, setHovered] = useState<Hover | null>(null)
+  const [query, setQuery] = useState("")
+  const [layout, setLayout] = useState<Layout>(new Map())
+  const layoutRef = useRef<Layout>(new Map())
+
+  useEffect(() => {
+    loadGraph()
+  }, [])
+
+  const loadGraph = async () => {
+    setError(null)
+    try {
+      const loaded = await getIngredientGraph()
+      setGraph(loaded)
+      // Start from the best-connected ingredient so the canvas isn't empty
+      const start = mostCentralNode(loaded, "pagerank")
+      if (start) {
+        setVisible(expandNeighbours(new Set(), loaded, start.id, graphEdgeTypes))
+        setSelected(start.id)
+      }
+    } catch (loadError) {
+      console.error("Error loading ingredient graph:", loadError)
+      setError(
+        isBackendUnavailable(loadError)
+          ? "The recipe server isn't reachable, so the ingredient graph can't be shown."
+          : "Couldn't load the ingredient graph.",
+      )
+    }
+  }
+
+  const nodesById = useMemo(() => new Map(graph?.nodes.map((node) => [node.id, node])), [graph])
+  const categories = useMemo(
+    () => Array.from(new Set(graph?.nodes.map((node) => node.category))).sort(),
+    [graph],
+  )
+  const maxCentrality = useMemo(
+    () => Math.max(0, ...(graph?.nodes.map((node) => node[metric]) ?? [])),
+    [graph, metric],
+  )
+  const edges = useMemo(() => (graph ? visibleEdges(graph, visible, edgeTypes) : []), [graph, visible, edgeTypes])
+
+  // Re-run the simulation whenever the visible graph changes, animating one tick per frame
+  useEffect(() => {
+    const links = layoutLinks(edges)
+    const seeded = seedLayout(Array.from(visible), links, layoutRef.current)
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+      layoutRef.current = settleLayout(seeded, links)
+      setLayout(layoutRef.current)
+      return
+    }
+
+    let alpha = 1
+    let frame = 0
+    layoutRef.current = seeded
+    const step = () => {
+      layoutRef.current = tickLayout(layoutRef.current, links, alpha)
+      setLayout(layoutRef.current)
+      alpha *= ALPHA_DECAY
+      if (alpha > ALPHA_MIN) frame = requestAnimationFrame(step)
+    }
+    frame = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frame)
+  }, [visible, edges])
+
+  const matches = graph ? findGraphNodes(graph, query) : []
+
+  const focusIngredient = (id: string) => {
+    if (!graph) return
+    setVisible((current) => expandNeighbours(current, graph, id, edgeTypes))
+    setSelected(id)
+    setQuery("")
+  }
+
+  const expandByType = (id: string, type: GraphEdgeType) => {
+    if (!graph) return
+    setVisible((current) => expandNeighbours(current, graph, id, [type]))
+    if (!edgeTypes.includes(type)) setEdgeTypes([...edgeTypes, type])
+  }
+
+  const resetView = () => {
+    setVisible(new Set())
+    setSelected(null)
+    layoutRef.current = new Map()
+  }
+
+  if (error) {
+    return (
+      <Card className="p-8 text-center">
+        <p className="text-muted-foreground mb-4">{error}</p>
+        <Button variant="outline" onClick={loadGraph}>
+          Try again
+        </Button>
+      </Card>
+    )
+  }
+
+  if (!graph) {
+    return <Skeleton className="h-[560px] w-full" />
+  }
+
+  const bounds = layoutBounds(layout, 60)
+  const selectedNode = selected ? nodesById.get(selected) : undefined
+  const hoveredNode = hovered?.kind === "node" ? nodesById.get(hovered.id) : undefined
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="relative flex-1 min-w-[220px] space-y-2">
+            <Label htmlFor="graph-search">Find an ingredient</Label>
+            <Input
+              id="graph-search"
+              placeholder="e.g. garlic"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" && matches.length) focusIngredient(matches[0].id)
+              }}
+              autoComplete="off"
+            />
+            {matches.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+                {matches.map((node) => (
+                  <li key={node.id}>
+                    <button
+                      type="button"
+                      className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm capitalize hover:bg-accent"
+                      onClick={() => focusIngredient(node.id)}
+                    >
+                      {node.id}
+                      <span className="text-xs text-muted-foreground">{node.category}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Edges</Label>
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              variant="outline"
+              value={edgeTypes}
+              onValueChange={(value) => setEdgeTypes(value as GraphEdgeType[])}
+              aria-label="Edge types"
+            >
+              {graphEdgeTypes.map((type) => (
+                <ToggleGroupItem key={type} value={type}>
+                  {graphEdgeLabels[type]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="graph-metric">Size by</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as CentralityMetric)}>
+              <SelectTrigger id="graph-metric" className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {centralityMetrics.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {centralityLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={resetView} disabled={!visible.size}>
+            Clear
+          </Button>
+        </div>
+
+        <Card className="relative overflow-hidden">
+          {visible.size === 0 ? (
+            <div className="flex h-[560px] items-center justify-center text-muted-foreground">
+              Search for an ingredient to start exploring.
+            </div>
+          ) : (
+            <svg
+              className="h-[560px] w-full"
+              viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`}
+              role="img"
+              aria-label="Ingredient relationship graph"
+            >
+              {edges.map((edge) => {
+                const source = layout.get(edge.source)
+                const target = layout.get(edge.target)
+                if (!source || !target) return null
+                const style = edgeStyles[edge.relationship_type as GraphEdgeType]
+                const isHovered = hovered?.kind === "edge" && hovered.edge === edge
+                return (
+                  <g
+                    key={`${edge.source}-${edge.target}`}
+                    onMouseEnter={() => setHovered({ kind: "edge", edge })}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    <line
+                      x1={source.x}
+                      y1={source.y}
+                      x2={target.x}
+                      y2={target.y}
+                      stroke={style?.stroke ?? "hsl(var(--border))"}
+                      strokeDasharray={style?.dash}
+                      strokeWidth={isHovered ? 4 : 1 + edge.weight * 2}
+                      strokeOpacity={isHovered ? 1 : 0.6}
+                    />
+                    {/* Wider invisible line so thin edges are easy to hover */}
+                    <line x1={source.x} y1={source.y} x2={target.x} y2={target.y} stroke="transparent" strokeWidth={12} />
+                  </g>
+                )
+              })}
+              {Array.from(visible).map((id) => {
+                const position = layout.get(id)
+                const node = nodesById.get(id)
+                if (!position || !node) return null
+                const radius = nodeRadius(node, metric, maxCentrality)
+                return (
+                  <g
+                    key={id}
+                    transform={`translate(${position.x} ${position.y})`}
+                    className="cursor-pointer"
+                    onClick={() => focusIngredient(id)}
+                    onMouseEnter={() => setHovered({ kind: "node", id })}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    <circle
+                      r={radius}
+                      fill={categoryColour(categories.indexOf(node.category))}
+                      stroke={id === selected ? "hsl(var(--foreground))" : "hsl(var(--background))"}
+                      strokeWidth={id === selected ? 3 : 1.5}
+                    />
+                    <text
+                      y={radius + 12}
+                      textAnchor="middle"
+                      className="fill-foreground text-[11px] capitalize select-none"
+                    >
+                      {id}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          )}
+
+          {hovered && (
+            <div className="pointer-events-none absolute left-3 top-3 rounded-md border bg-background/95 p-3 text-sm shadow-sm">
+              {hovered.kind === "edge" ? (
+                <>
+                  <p className="font-medium capitalize">
+                    {hovered.edge.source} — {hovered.edge.target}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {graphEdgeLabels[hovered.edge.relationship_type as GraphEdgeType] ?? hovered.edge.relationship_type}
+                    {" · "}
+                    {Math.round(hovered.edge.weight * 100)}% similarity
+                  </p>
+                </>
+              ) : (
+                hoveredNode && (
+                  <>
+                    <p className="font-medium capitalize">{hoveredNode.id}</p>
+                    <p className="text-muted-foreground capitalize mb-1">{hoveredNode.category}</p>
+                    {centralityMetrics.map((option) => (
+                      <p key={option} className={option === metric ? "font-medium" : "text-muted-foreground"}>
+                        {centralityLabels[option]}: {formatScore(hoveredNode[option])}
+                      </p>
+                    ))}
+                  </>
+                )
+              )}
+            </div>
+          )}
+        </Card>
+
+        <div className="flex flex-wrap gap-2">
+          {categories.map((category, index) => (
+            <Badge key={category} variant="outline" className="gap-2 capitalize">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ background: categoryColour(index) }} />
+              {category}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="capitalize">{selectedNode?.id ?? "Ingredient"}</CardTitle>
+          <CardDescription className="capitalize">
+            {selectedNode ? selectedNode.category : "Click an ingredient to see its connections."}
+          </CardDescription>
+        </CardHeader>
+        {selectedNode && (
+          <CardContent className="space-y-4 text-sm">
+            <dl className="divide-y">
+              {centralityMetrics.map((option) => (
+                <div key={option} className="flex justify-between py-1.5">
+                  <dt className="text-muted-foreground">{centralityLabels[option]}</dt>
+                  <dd className="font-medium">{formatScore(selectedNode[option])}</dd>
+                </div>
+              ))}
+            </dl>
+            {graphEdgeTypes.map((type) => {
+              const connections = neighbourEdges(graph, selectedNode.id, [type])
+              if (!connections.length) return null
+              const hidden = connections.filter((edge) => !visible.has(otherEnd(edge, selectedNode.id))).length
+              return (
+                <div key={type} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">{graphEdgeLabels[type]}</p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => expandByType(selectedNode.id, type)}
+                      disabled={hidden === 0 && edgeTypes.includes(type)}
+                    >
+                      {hidden > 0 ? `Show ${hidden}` : "Shown"}
+                    </Button>
+                  </div>
+                  <ul className="space-y-1">
+                    {connections.map((edge) => {
+                      const neighbour = otherEnd(edge, selectedNode.id)
+                      return (
+                        <li key={neighbour} className="flex justify-between">
+                          <button
+                            type="button"
+                            className="capitalize underline-offset-2 hover:underline"
+                            onClick={() => focusIngredient(neighbour)}
+                          >
+                            {neighbour}
+                          </button>
+                          <span className="text-muted-foreground">{Math.round(edge.weight * 100)}%</span>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )
+            })}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  )
+}
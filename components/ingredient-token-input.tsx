@@ -0,0 +1,143 @@
+"use client"
+
+import { useState, type KeyboardEvent } from "react"
+import { Command as CommandPrimitive } from "cmdk"
+import { X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command"
+import { normaliseIngredient, normaliseIngredients, suggestIngredients } from "@/lib/ingredients/vocabulary"
+import { cn } from "@/lib/utils"
+
+interface IngredientTokenInputProps {
+  /** Id of the text field, for labels and focusing it from elsewhere. */
+  id?: string
+  /** Normalised ingredient names, one chip each. */
+  value: string[]
+  onChange: (value: string[]) => void
+  /** Called when Enter is pressed with nothing typed. */
+  onSubmit?: () => void
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * A chip input for ingredients. Suggestions come from the ingredient
+ * vocabulary, so "aloo" offers potato, and every chip is normalised to its
+ * canonical name; names the vocabulary doesn't know are still accepted.
+ * Commas, pasted lists and leaving the field all turn typed text into chips.
+ */
+export function IngredientTokenInput({
+  id,
+  value,
+  onChange,
+  onSubmit,
+  placeholder,
+  disabled,
+  className,
+}: IngredientTokenInputProps) {
+  const [query, setQuery] = useState("")
+  const [open, setOpen] = useState(false)
+
+  const addTokens = (tokens: string[]) => {
+    const next = normaliseIngredients([...value, ...tokens])
+    if (next.length !== value.length) onChange(next)
+  }
+
+  const removeToken = (token: string) => onChange(value.filter((name) => name !== token))
+
+  const handleQueryChange = (text: string) => {
+    if (!text.includes(",")) {
+      setQuery(text)
+      return
+    }
+    const parts = text.split(",")
+    addTokens(parts.slice(0, -1))
+    setQuery(parts[parts.length - 1].trimStart())
+  }
+
+  const choose = (name: string) => {
+    addTokens([name])
+    setQuery("")
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" && !query.trim()) {
+      event.preventDefault()
+      onSubmit?.()
+    } else if (event.key === "Backspace" && !query && value.length) {
+      removeToken(value[value.length - 1])
+    } else if (event.key === "Escape") {
+      setOpen(false)
+    }
+  }
+
+  const suggestions = suggestIngredients(query).filter((suggestion) => !value.includes(suggestion.name))
+  const typed = normaliseIngredient(query)
+  const offerTyped = !!typed && !value.includes(typed) && !suggestions.some((suggestion) => suggestion.name === typed)
+  const showList = open && (suggestions.length > 0 || offerTyped)
+
+  return (
+    <Command shouldFilter={false} className={cn("relative overflow-visible bg-transparent", className)}>
+      <div
+        className={cn(
+          "border-input dark:bg-input/30 flex min-h-9 w-full flex-wrap items-center gap-1 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] md:text-sm",
+          "focus-within:border-ring focus-within:ring-ring/50 focus-within:ring-[3px]",
+          disabled && "pointer-events-none cursor-not-allowed opacity-50",
+        )}
+      >
+        {value.map((name) => (
+          <Badge key={name} variant="secondary" className="capitalize">
+            {name}
+            <button
+              type="button"
+              className="rounded-sm opacity-60 hover:opacity-100"
+              onClick={() => removeToken(name)}
+              aria-label={`Remove ${name}`}
+            >
+              <X className="size-3" />
+            </button>
+          </Badge>
+        ))}
+        <CommandPrimitive.Input
+          id={id}
+          value={query}
+          onValueChange={handleQueryChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            // Keep what was typed rather than losing it when the user clicks away
+            if (query.trim()) choose(query)
+            setOpen(false)
+          }}
+          placeholder={value.length ? undefined : placeholder}
+          disabled={disabled}
+          className="placeholder:text-muted-foreground min-w-[120px] flex-1 bg-transparent py-1 outline-none"
+        />
+      </div>
+      {showList && (
+        <CommandList
+          className="absolute top-full z-50 mt-1 w-full rounded-md border bg-popover shadow-md"
+          // Stop the input blurring (and adding the typed text) before a suggestion is picked
+          onMouseDown={(event) => event.preventDefault()}
+        >
+          <CommandGroup>
+            {suggestions.map((suggestion) => (
+              <CommandItem key={suggestion.name} value={suggestion.name} onSelect={() => choose(suggestion.name)}>
+                <span className="capitalize">{suggestion.name}</span>
+                {suggestion.matched && (
+                  <span className="ml-auto text-xs text-muted-foreground">{suggestion.matched}</span>
+                )}
+              </CommandItem>
+            ))}
+            {offerTyped && (
+              <CommandItem value={`add:${typed}`} onSelect={() => choose(typed)}>
+                Add “{typed}”
+              </CommandItem>
+            )}
+          </CommandGroup>
+        </CommandList>
+      )}
+    </Command>
+  )
+}
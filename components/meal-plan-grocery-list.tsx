@@ -0,0 +1,152 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import { addToShoppingList } from "@/app/shopping-list/actions"
+import type { PantryCategory } from "@/lib/pantry/schemas"
+import type { GroceryItem, GroceryList } from "@/lib/planner/grocery"
+import { formatAmount } from "@/lib/units/format"
+
+interface MealPlanGroceryListProps {
+  list: GroceryList
+  /** Shown as the source of every row added to the shopping list. */
+  planLabel: string
+}
+
+const sectionIcons: Record<PantryCategory, string> = {
+  produce: "🥬",
+  dairy: "🧀",
+  protein: "🍗",
+  grains: "🌾",
+  baking: "🧁",
+  spices: "🌶️",
+  oils: "🫒",
+  condiments: "🥫",
+  other: "🛒",
+}
+
+const itemKey = (item: GroceryItem) => `${item.name}:${item.unit ?? ""}`
+
+export function MealPlanGroceryList({ list, planLabel }: MealPlanGroceryListProps) {
+  const allItems = list.sections.flatMap((section) => section.items)
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(allItems.map(itemKey)))
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const toggle = (item: GroceryItem, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(itemKey(item))
+      else next.delete(itemKey(item))
+      return next
+    })
+  }
+
+  const handleAddToShoppingList = () => {
+    const entries = allItems
+      .filter((item) => selected.has(itemKey(item)))
+      .map((item) => ({ name: item.name, quantity: item.quantity, unit: item.unit, recipe_name: planLabel }))
+
+    startTransition(async () => {
+      const result = await addToShoppingList(entries)
+      if (result.error !== undefined) {
+        toast({ title: "Shopping List Error", description: result.error, variant: "destructive" })
+        return
+      }
+      toast({
+        title: "🛒 Added to Shopping List",
+        description: `${result.data} ingredient${result.data === 1 ? "" : "s"} from your ${planLabel.toLowerCase()}.`,
+      })
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>To Buy ({allItems.length})</CardTitle>
+            <CardDescription>
+              Untick anything you don&apos;t need, then send the rest to your{" "}
+              <Link href="/shopping-list" className="underline">
+                shopping list
+              </Link>
+              .
+            </CardDescription>
+          </div>
+          <Button onClick={handleAddToShoppingList} disabled={pending || selected.size === 0}>
+            🛒 Add {selected.size > 0 ? selected.size : ""} to Shopping List
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {allItems.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              Nothing to buy. Plan some meals for this week, or your pantry already covers them.
+            </p>
+          ) : (
+            list.sections.map(({ section, items }) => (
+              <section key={section}>
+                <h3 className="font-semibold capitalize mb-2">
+                  {sectionIcons[section]} {section}
+                </h3>
+                <ul className="divide-y rounded-md border">
+                  {items.map((item) => (
+                    <li key={itemKey(item)} className="flex items-center gap-3 p-3">
+                      <Checkbox
+                        id={`grocery-${itemKey(item)}`}
+                        checked={selected.has(itemKey(item))}
+                        onCheckedChange={(checked) => toggle(item, checked === true)}
+                      />
+                      <label htmlFor={`grocery-${itemKey(item)}`} className="flex-1 cursor-pointer">
+                        <span className="font-medium capitalize">{item.name}</span>
+                        {item.quantity !== null && (
+                          <span className="text-muted-foreground"> · {formatAmount(item.quantity, item.unit)}</span>
+                        )}
+                        {item.in_pantry && (
+                          <span className="block text-xs text-muted-foreground">
+                            You have {formatAmount(item.in_pantry.quantity, item.in_pantry.unit)} in your pantry
+                          </span>
+                        )}
+                      </label>
+                      <div className="hidden md:flex flex-wrap justify-end gap-1">
+                        {item.recipe_names.map((recipeName) => (
+                          <Badge key={recipeName} variant="outline" className="text-xs">
+                            {recipeName}
+                          </Badge>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {list.covered.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>🥫 Already in Your Pantry ({list.covered.length})</CardTitle>
+            <CardDescription>Left off the list because your pantry has enough.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {list.covered.map((item) => (
+                <Badge key={`${item.name}:${item.unit ?? ""}`} variant="secondary" className="capitalize">
+                  {item.name}
+                  {item.quantity !== null && ` · ${formatAmount(item.quantity, item.unit)}`}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
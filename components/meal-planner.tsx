@@ -0,0 +1,409 @@
+"use client"
+
+import { useRef, useState, useTransition, type DragEvent } from "react"
+import Link from "next/link"
+import { addWeeks, format } from "date-fns"
+import { CalendarDays, ChevronLeft, ChevronRight, GripVertical, Minus, Plus, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
+import { listMealPlan, moveMeal, planMeal, removeMeal, updateMealServings } from "@/app/planner/actions"
+import { searchUserRecipes } from "@/app/my-recipes/actions"
+import { searchRecipes } from "@/lib/api/client"
+import type { Recipe } from "@/lib/api/schemas"
+import { offlineRecipes } from "@/lib/offline/dataset"
+import { searchRecipesByName } from "@/lib/offline/matcher"
+import { mealSlots, type MealPlanEntry, type MealSlot } from "@/lib/planner/schemas"
+import { formatMinutes, fromPlanDate, getWeekDays, getWeekStart, toPlanDate, totalMinutesForDay } from "@/lib/planner/week"
+import type { SavedRecipe } from "@/lib/saved/schemas"
+
+interface MealPlannerProps {
+  initialWeekStart: string
+  initialEntries: MealPlanEntry[]
+  savedRecipes: SavedRecipe[]
+  loadError?: string
+}
+
+// What is being dragged: a recipe from the picker or an already planned meal
+type DragItem = { kind: "recipe"; recipe: Recipe } | { kind: "entry"; entry: MealPlanEntry }
+
+const slotLabels: Record<MealSlot, string> = { breakfast: "Breakfast", lunch: "Lunch", dinner: "Dinner" }
+
+const recipeMinutes = (recipe: Recipe) => (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+export function MealPlanner({ initialWeekStart, initialEntries, savedRecipes, loadError }: MealPlannerProps) {
+  const [weekStart, setWeekStart] = useState(() => fromPlanDate(initialWeekStart))
+  const [entries, setEntries] = useState<MealPlanEntry[]>(initialEntries)
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<Recipe[]>([])
+  const [searching, setSearching] = useState(false)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [pending, startTransition] = useTransition()
+  const dragItemRef = useRef<DragItem | null>(null)
+  // The week most recently asked for, so a slower earlier response can't overwrite it
+  const requestedWeekRef = useRef(initialWeekStart)
+  const { toast } = useToast()
+
+  const weekDays = getWeekDays(weekStart)
+  const weekTotal = weekDays.reduce((total, day) => total + totalMinutesForDay(entries, toPlanDate(day)), 0)
+
+  const showError = (description: string) => {
+    toast({ title: "Planner Error", description, variant: "destructive" })
+  }
+
+  const changeWeek = (date: Date) => {
+    const start = getWeekStart(date)
+    const planDate = toPlanDate(start)
+    requestedWeekRef.current = planDate
+    setWeekStart(start)
+    startTransition(async () => {
+      const result = await listMealPlan(planDate)
+      if (requestedWeekRef.current !== planDate) return
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setEntries(result.data)
+    })
+  }
+
+  const searchForRecipes = async () => {
+    const query = searchQuery.trim()
+    if (!query) return
+    setSearching(true)
+    try {
+      const [backend, community] = await Promise.all([
+        searchRecipes({ query, limit: 12 })
+          .then((data) => data.recipes)
+          // Fall back to the bundled collection when the backend is down
+          .catch(() => searchRecipesByName(offlineRecipes, query, 12)),
+        searchUserRecipes(query, 12),
+      ])
+      setSearchResults([...(community.data ?? []), ...backend])
+    } catch (error) {
+      console.error("Error searching recipes:", error)
+      showError("Could not search for recipes")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const addToSlot = (planDate: string, slot: MealSlot, recipe: Recipe) => {
+    startTransition(async () => {
+      const result = await planMeal(planDate, slot, recipe)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setEntries((current) => [
+        ...current.filter((entry) => !(entry.plan_date === planDate && entry.slot === slot)),
+        result.data,
+      ])
+      setSelectedRecipe(null)
+    })
+  }
+
+  const moveToSlot = (moving: MealPlanEntry, planDate: string, slot: MealSlot) => {
+    if (moving.plan_date === planDate && moving.slot === slot) return
+    startTransition(async () => {
+      const result = await moveMeal(moving.id, planDate, slot)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setEntries((current) =>
+        current
+          .filter((entry) => entry.id === moving.id || !(entry.plan_date === planDate && entry.slot === slot))
+          .map((entry) => (entry.id === moving.id ? { ...entry, plan_date: planDate, slot } : entry)),
+      )
+    })
+  }
+
+  const changeServings = (entry: MealPlanEntry, servings: number) => {
+    if (servings < 1 || servings > 50) return
+    setEntries((current) => current.map((candidate) => (candidate.id === entry.id ? { ...candidate, servings } : candidate)))
+    startTransition(async () => {
+      const result = await updateMealServings(entry.id, servings)
+      if (result.error !== undefined) {
+        showError(result.error)
+        setEntries((current) => current.map((candidate) => (candidate.id === entry.id ? entry : candidate)))
+      }
+    })
+  }
+
+  const handleRemove = (entry: MealPlanEntry) => {
+    startTransition(async () => {
+      const result = await removeMeal(entry.id)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setEntries((current) => current.filter((candidate) => candidate.id !== entry.id))
+    })
+  }
+
+  const startDrag = (event: DragEvent, item: DragItem) => {
+    dragItemRef.current = item
+    event.dataTransfer.effectAllowed = item.kind === "recipe" ? "copy" : "move"
+    // Firefox only starts a drag when some data is set
+    event.dataTransfer.setData("text/plain", item.kind === "recipe" ? item.recipe.name : item.entry.recipe.name)
+  }
+
+  const handleDrop = (event: DragEvent, planDate: string, slot: MealSlot) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const item = dragItemRef.current
+    dragItemRef.current = null
+    if (!item) return
+    if (item.kind === "recipe") addToSlot(planDate, slot, item.recipe)
+    else moveToSlot(item.entry, planDate, slot)
+  }
+
+  const renderPickerList = (recipes: Recipe[], emptyText: string) =>
+    recipes.length === 0 ? (
+      <p className="text-sm text-muted-foreground text-center py-6">{emptyText}</p>
+    ) : (
+      <ul className="space-y-2">
+        {recipes.map((recipe) => (
+          <li
+            key={recipe.id}
+            draggable
+            onDragStart={(event) => startDrag(event, { kind: "recipe", recipe })}
+            onClick={() => setSelectedRecipe(selectedRecipe?.id === recipe.id ? null : recipe)}
+            className={`flex items-center gap-2 rounded-md border p-2 text-sm cursor-grab active:cursor-grabbing hover:bg-accent ${
+              selectedRecipe?.id === recipe.id ? "border-primary bg-accent" : ""
+            }`}
+          >
+            <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 line-clamp-2">{recipe.name}</span>
+            {recipeMinutes(recipe) > 0 && (
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{formatMinutes(recipeMinutes(recipe))}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )
+
+  if (loadError) {
+    return <p className="text-destructive">{loadError}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Week navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => changeWeek(addWeeks(weekStart, -1))} aria-label="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="min-w-[14rem]">
+                <CalendarDays className="mr-2 h-4 w-4" />
+                {format(weekDays[0], "d MMM")} – {format(weekDays[6], "d MMM yyyy")}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                weekStartsOn={1}
+                selected={weekStart}
+                onSelect={(date) => date && changeWeek(date)}
+                modifiers={{ planned: weekDays }}
+                modifiersClassNames={{ planned: "bg-accent rounded-none" }}
+              />
+            </PopoverContent>
+          </Popover>
+          <Button variant="outline" size="icon" onClick={() => changeWeek(addWeeks(weekStart, 1))} aria-label="Next week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" onClick={() => changeWeek(new Date())}>
+            This week
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Week total: {formatMinutes(weekTotal)} cooking</Badge>
+          <Link href={`/planner/grocery?week=${toPlanDate(weekStart)}`}>
+            <Button variant="secondary" size="sm" disabled={entries.length === 0}>
+              🛒 Grocery List
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="min-h-[560px] rounded-lg border">
+        {/* Recipe picker */}
+        <ResizablePanel defaultSize={28} minSize={18} maxSize={45}>
+          <div className="h-full p-3">
+            <p className="text-xs text-muted-foreground mb-2">
+              Drag a recipe onto a meal, or click one and then an empty slot.
+            </p>
+            <Tabs defaultValue="saved">
+              <TabsList className="w-full">
+                <TabsTrigger value="saved" className="flex-1">
+                  Saved
+                </TabsTrigger>
+                <TabsTrigger value="search" className="flex-1">
+                  Search
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="saved">
+                <ScrollArea className="h-[440px] pr-2">
+                  {renderPickerList(
+                    savedRecipes.map((entry) => entry.recipe),
+                    "Save recipes with the heart to plan them here.",
+                  )}
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="search" className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Recipe name..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && searchForRecipes()}
+                  />
+                  <Button variant="secondary" onClick={searchForRecipes} disabled={searching}>
+                    {searching ? "..." : "Search"}
+                  </Button>
+                </div>
+                <ScrollArea className="h-[400px] pr-2">
+                  {renderPickerList(searchResults, "Search by name to find recipes to plan.")}
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        {/* Week */}
+        <ResizablePanel defaultSize={72}>
+          <div className="h-full px-12 py-3">
+            {/* Dragging is disabled so it doesn't fight with dropping recipes */}
+            <Carousel opts={{ align: "start", watchDrag: false }}>
+              <CarouselContent>
+                {weekDays.map((day) => {
+                  const planDate = toPlanDate(day)
+                  const dayMinutes = totalMinutesForDay(entries, planDate)
+                  const isToday = planDate === toPlanDate(new Date())
+                  return (
+                    <CarouselItem key={planDate} className="basis-full md:basis-1/2 xl:basis-1/3">
+                      <Card className={isToday ? "border-primary" : undefined}>
+                        <CardHeader className="pb-3">
+                          <CardTitle className="flex items-center justify-between text-base">
+                            {format(day, "EEEE d MMM")}
+                            <Badge variant={dayMinutes > 0 ? "secondary" : "outline"}>
+                              ⏱️ {dayMinutes > 0 ? formatMinutes(dayMinutes) : "—"}
+                            </Badge>
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          {mealSlots.map((slot) => {
+                            const entry = entries.find((candidate) => candidate.plan_date === planDate && candidate.slot === slot)
+                            const targetKey = `${planDate}:${slot}`
+                            return (
+                              <div
+                                key={slot}
+                                onDragOver={(event) => {
+                                  event.preventDefault()
+                                  setDropTarget(targetKey)
+                                }}
+                                onDragLeave={() => setDropTarget((current) => (current === targetKey ? null : current))}
+                                onDrop={(event) => handleDrop(event, planDate, slot)}
+                                className={`rounded-md border p-2 min-h-[84px] transition-colors ${
+                                  dropTarget === targetKey ? "border-primary bg-accent" : entry ? "" : "border-dashed"
+                                }`}
+                              >
+                                <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">{slotLabels[slot]}</p>
+                                {entry ? (
+                                  <div
+                                    draggable
+                                    onDragStart={(event) => startDrag(event, { kind: "entry", entry })}
+                                    className="space-y-1 cursor-grab active:cursor-grabbing"
+                                  >
+                                    <div className="flex items-start justify-between gap-1">
+                                      <Link
+                                        href={`/recipe/${encodeURIComponent(entry.recipe.id)}?servings=${entry.servings}`}
+                                        className="text-sm font-medium hover:underline line-clamp-2"
+                                      >
+                                        {entry.recipe.name}
+                                      </Link>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6 shrink-0"
+                                        onClick={() => handleRemove(entry)}
+                                        disabled={pending}
+                                        aria-label={`Remove ${entry.recipe.name}`}
+                                      >
+                                        <X className="h-3 w-3" />
+                                      </Button>
+                                    </div>
+                                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                      <span>{recipeMinutes(entry.recipe) > 0 ? formatMinutes(recipeMinutes(entry.recipe)) : ""}</span>
+                                      <span className="flex items-center gap-1">
+                                        <Button
+                                          variant="outline"
+                                          size="icon"
+                                          className="h-5 w-5"
+                                          onClick={() => changeServings(entry, entry.servings - 1)}
+                                          disabled={entry.servings <= 1}
+                                          aria-label="Fewer servings"
+                                        >
+                                          <Minus className="h-3 w-3" />
+                                        </Button>
+                                        👥 {entry.servings}
+                                        <Button
+                                          variant="outline"
+                                          size="icon"
+                                          className="h-5 w-5"
+                                          onClick={() => changeServings(entry, entry.servings + 1)}
+                                          disabled={entry.servings >= 50}
+                                          aria-label="More servings"
+                                        >
+                                          <Plus className="h-3 w-3" />
+                                        </Button>
+                                      </span>
+                                    </div>
+                                  </div>
+                                ) : selectedRecipe ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="w-full text-xs"
+                                    onClick={() => addToSlot(planDate, slot, selectedRecipe)}
+                                    disabled={pending}
+                                  >
+                                    + Add {selectedRecipe.name}
+                                  </Button>
+                                ) : (
+                                  <p className="text-xs text-muted-foreground">Drop a recipe here</p>
+                                )}
+                              </div>
+                            )
+                          })}
+                        </CardContent>
+                      </Card>
+                    </CarouselItem>
+                  )
+                })}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  )
+}
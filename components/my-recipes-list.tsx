@@ -0,0 +1,46 @@
+"use client"
+
+import Link from "next/link"
+import { RecipeCard } from "@/components/recipe-card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import type { OwnedRecipe } from "@/app/my-recipes/actions"
+
+interface MyRecipesListProps {
+  recipes: OwnedRecipe[]
+  loadError?: string
+}
+
+export function MyRecipesList({ recipes, loadError }: MyRecipesListProps) {
+  if (loadError) {
+    return <p className="text-destructive">{loadError}</p>
+  }
+
+  if (recipes.length === 0) {
+    return (
+      <Card className="p-8 text-center text-muted-foreground">
+        <p className="text-lg mb-2">You haven&apos;t written any recipes yet</p>
+        <p>Create one to keep it private or share it with everyone.</p>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {recipes.map(({ recipe, is_public }) => (
+        <div key={recipe.id} className="flex flex-col gap-2">
+          <RecipeCard recipe={recipe} />
+          <div className="flex items-center justify-between">
+            <Badge variant={is_public ? "default" : "secondary"}>{is_public ? "Published" : "Private"}</Badge>
+            <Link href={`/my-recipes/${recipe.id}/edit`}>
+              <Button variant="outline" size="sm">
+                Edit
+              </Button>
+            </Link>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { Cell, Pie, PieChart } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { NutritionInfo } from "@/lib/api/schemas"
+import type { NutritionConfidence, NutritionEstimate } from "@/lib/nutrition/calculator"
+import { formatCalories, formatGrams, macroSplit, scaleNutrition } from "@/lib/recipes/nutrition"
+
+interface NutritionPanelProps {
+  /** Values for one serving. */
+  nutrition: NutritionInfo
+  servings: number
+  /** Present when the values were calculated locally from the ingredients. */
+  estimate?: NutritionEstimate | null
+}
+
+type NutritionView = "serving" | "recipe"
+
+const chartConfig = {
+  calories: { label: "Calories" },
+  protein: { label: "Protein", color: "hsl(var(--chart-1))" },
+  carbs: { label: "Carbs", color: "hsl(var(--chart-2))" },
+  fat: { label: "Fat", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+const confidenceStyles: Record<NutritionConfidence, string> = {
+  high: "bg-green-100 text-green-800 border-green-200",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  low: "bg-orange-100 text-orange-800 border-orange-200",
+}
+
+const rows: { key: keyof NutritionInfo; label: string }[] = [
+  { key: "calories", label: "Calories" },
+  { key: "protein", label: "Protein" },
+  { key: "carbs", label: "Carbohydrates" },
+  { key: "fat", label: "Fat" },
+  { key: "fiber", label: "Fibre" },
+]
+
+export function NutritionPanel({ nutrition, servings, estimate }: NutritionPanelProps) {
+  const [view, setView] = useState<NutritionView>("serving")
+
+  const shown = view === "serving" ? nutrition : scaleNutrition(nutrition, servings)
+  const split = macroSplit(shown)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl flex items-center gap-2">
+            Nutrition
+            {estimate && (
+              <Badge variant="outline" className={confidenceStyles[estimate.confidence]}>
+                Estimated · {estimate.confidence} confidence
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {view === "serving" ? "Per serving" : `Whole recipe, ${servings} serving${servings === 1 ? "" : "s"}`}
+          </CardDescription>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && setView(value as NutritionView)}
+          aria-label="Nutrition amounts"
+        >
+          <ToggleGroupItem value="serving">Per serving</ToggleGroupItem>
+          <ToggleGroupItem value="recipe">Per recipe</ToggleGroupItem>
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <dl className="divide-y">
+          {rows
+            .filter(({ key }) => shown[key] !== undefined)
+            .map(({ key, label }) => (
+              <div key={key} className="flex justify-between py-2">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-medium">
+                  {key === "calories" ? formatCalories(shown[key]!) : formatGrams(shown[key]!)}
+                </dd>
+              </div>
+            ))}
+        </dl>
+
+        {split.length > 0 ? (
+          <div>
+            <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[240px]">
+              <PieChart>
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      nameKey="macro"
+                      hideLabel
+                      formatter={(_, __, item) => {
+                        const share = item.payload as (typeof split)[number]
+                        return (
+                          <span>
+                            {chartConfig[share.macro].label}: {formatGrams(share.grams)} · {Math.round(share.percentage)}%
+                          </span>
+                        )
+                      }}
+                    />
+                  }
+                />
+                <Pie data={split} dataKey="calories" nameKey="macro" innerRadius={50} strokeWidth={4}>
+                  {split.map((share) => (
+                    <Cell key={share.macro} fill={`var(--color-${share.macro})`} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="macro" />} />
+              </PieChart>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground text-center">Share of calories from each macro</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground self-center text-center">No macro breakdown for this recipe.</p>
+        )}
+
+        {estimate && (
+          <div className="md:col-span-2 space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              Calculated from the ingredient list using a built-in nutrient table.{" "}
+              {estimate.ingredients.length - estimate.unresolved.length} of {estimate.ingredients.length} ingredients
+              were accounted for{estimate.unresolved.length > 0 && ", so the real values are likely higher"}.
+            </p>
+            {estimate.unresolved.length > 0 && (
+              <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                <p className="font-semibold text-orange-700 mb-2">Couldn&apos;t work out:</p>
+                <ul className="space-y-1 text-orange-700">
+                  {estimate.ingredients
+                    .filter((item) => item.status === "unresolved")
+                    .map((item, index) => (
+                      <li key={index}>
+                        <span className="capitalize">{item.ingredient.name}</span>
+                        {item.note && <span className="text-orange-600"> · {item.note}</span>}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,306 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { addPantryItem, deletePantryItem, updatePantryItem } from "@/app/pantry/actions"
+import { describeExpiry, getExpiryStatus, type ExpiryStatus } from "@/lib/pantry/expiry"
+import { formatAmount } from "@/lib/units/format"
+import { pantryCategories, type PantryCategory, type PantryItem } from "@/lib/pantry/schemas"
+
+interface PantryFormValues {
+  name: string
+  quantity: string
+  unit: string
+  category: PantryCategory | ""
+  expires_on: string
+}
+
+const emptyForm: PantryFormValues = { name: "", quantity: "", unit: "", category: "", expires_on: "" }
+
+const expiryStyles: Record<ExpiryStatus, string> = {
+  expired: "bg-red-50 border-red-200 text-red-700",
+  expiring: "bg-orange-50 border-orange-200 text-orange-700",
+  soon: "bg-yellow-50 border-yellow-200 text-yellow-700",
+  fresh: "bg-green-50 border-green-200 text-green-700",
+}
+
+const toFormValues = (item: PantryItem): PantryFormValues => ({
+  name: item.name,
+  quantity: item.quantity?.toString() ?? "",
+  unit: item.unit ?? "",
+  category: item.category ?? "",
+  expires_on: item.expires_on ?? "",
+})
+
+interface ExpiryDatePickerProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+function ExpiryDatePicker({ value, onChange }: ExpiryDatePickerProps) {
+  const [open, setOpen] = useState(false)
+  const selected = value ? parseISO(value) : undefined
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-40 justify-start font-normal">
+          {selected ? format(selected, "d MMM yyyy") : <span className="text-muted-foreground">Best before</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={(date) => {
+            onChange(date ? format(date, "yyyy-MM-dd") : "")
+            setOpen(false)
+          }}
+        />
+        {value && (
+          <div className="border-t p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                onChange("")
+                setOpen(false)
+              }}
+            >
+              Clear date
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+interface PantryItemFieldsProps {
+  values: PantryFormValues
+  onChange: (values: PantryFormValues) => void
+  onSubmit: () => void
+}
+
+function PantryItemFields({ values, onChange, onSubmit }: PantryItemFieldsProps) {
+  return (
+    <>
+      <Input
+        placeholder="Ingredient (e.g., basmati rice)"
+        value={values.name}
+        onChange={(e) => onChange({ ...values, name: e.target.value })}
+        onKeyDown={(e) => e.key === "Enter" && onSubmit()}
+        className="flex-1 min-w-[180px]"
+      />
+      <Input
+        type="number"
+        min="0"
+        step="any"
+        placeholder="Qty"
+        value={values.quantity}
+        onChange={(e) => onChange({ ...values, quantity: e.target.value })}
+        className="w-24"
+      />
+      <Input
+        placeholder="Unit"
+        value={values.unit}
+        onChange={(e) => onChange({ ...values, unit: e.target.value })}
+        className="w-24"
+      />
+      <Select
+        value={values.category || undefined}
+        onValueChange={(category) => onChange({ ...values, category: category as PantryCategory })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          {pantryCategories.map((category) => (
+            <SelectItem key={category} value={category} className="capitalize">
+              {category}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ExpiryDatePicker value={values.expires_on} onChange={(expires_on) => onChange({ ...values, expires_on })} />
+    </>
+  )
+}
+
+interface PantryManagerProps {
+  initialItems: PantryItem[]
+  loadError?: string
+}
+
+export function PantryManager({ initialItems, loadError }: PantryManagerProps) {
+  const [items, setItems] = useState<PantryItem[]>(initialItems)
+  const [newItem, setNewItem] = useState<PantryFormValues>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValues, setEditValues] = useState<PantryFormValues>(emptyForm)
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({ title: "Pantry Error", description, variant: "destructive" })
+  }
+
+  const handleAdd = () => {
+    if (!newItem.name.trim()) return
+    startTransition(async () => {
+      const result = await addPantryItem(newItem)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setItems((current) => [result.data, ...current])
+      setNewItem(emptyForm)
+    })
+  }
+
+  const handleSave = (id: string) => {
+    startTransition(async () => {
+      const result = await updatePantryItem(id, editValues)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setItems((current) => current.map((item) => (item.id === id ? result.data : item)))
+      setEditingId(null)
+    })
+  }
+
+  const handleDelete = (id: string) => {
+    startTransition(async () => {
+      const result = await deletePantryItem(id)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setItems((current) => current.filter((item) => item.id !== id))
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add to Pantry</CardTitle>
+          <CardDescription>Quantity, unit, category and best-before date are optional.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            <PantryItemFields values={newItem} onChange={setNewItem} onSubmit={handleAdd} />
+            <Button onClick={handleAdd} disabled={pending || !newItem.name.trim()}>
+              Add Item
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>In Stock ({items.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadError ? (
+            <p className="text-destructive">{loadError}</p>
+          ) : items.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              Your pantry is empty. Add the ingredients you have at home to get started.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ingredient</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Best Before</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const expiryStatus = getExpiryStatus(item.expires_on)
+                  return editingId === item.id ? (
+                    <TableRow key={item.id}>
+                      <TableCell colSpan={5}>
+                        <div className="flex flex-wrap gap-2">
+                          <PantryItemFields
+                            values={editValues}
+                            onChange={setEditValues}
+                            onSubmit={() => handleSave(item.id)}
+                          />
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" onClick={() => handleSave(item.id)} disabled={pending}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow key={item.id} className={expiryStatus === "expired" ? "opacity-60" : undefined}>
+                      <TableCell className="font-medium capitalize">{item.name}</TableCell>
+                      <TableCell>
+                        {item.quantity !== null ? formatAmount(item.quantity, item.unit) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {item.category && (
+                          <Badge variant="outline" className="capitalize">
+                            {item.category}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {item.expires_on && expiryStatus && (
+                          <Badge variant="outline" className={expiryStyles[expiryStatus]}>
+                            {expiryStatus === "fresh"
+                              ? format(parseISO(item.expires_on), "d MMM yyyy")
+                              : describeExpiry(item.expires_on)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(item.added_at), "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setEditingId(item.id)
+                            setEditValues(toFormValues(item))
+                          }}
+                        >
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)} disabled={pending}>
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,50 +3,59 @@ import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { AddToShoppingListButton } from "@/components/add-to-shopping-list-button"
+import { AllergenWarning } from "@/components/allergen-warning"
+import { FavouriteButton } from "@/components/favourite-button"
+import { SubstitutionPopover } from "@/components/substitution-popover"
 import Image from "next/image"
+import type { Recipe } from "@/lib/api/schemas"
+import { matchUserAllergens, type Allergen } from "@/lib/allergens/taxonomy"
+import { rememberRecipeMatch } from "@/lib/recipes/match-context"
+import { coverMissingIngredient } from "@/lib/recipes/substitutions"
+import { getRecipeNutrition } from "@/lib/nutrition/calculator"
+import { formatCalories } from "@/lib/recipes/nutrition"
 
 interface RecipeCardProps {
-  recipe: {
-    id: string
-    name: string
-    description: string
-    ingredients?: Array<{ name: string; quantity?: number; unit?: string }>
-    instructions?: string[]
-    prep_time?: number | string
-    cook_time?: number | string
-    servings?: number
-    difficulty?: string
-    cuisine?: string
-    image_url?: string
-    match_score?: number
-    match_percentage?: number
-    matched_ingredients?: string[]
-    total_matched?: number
-    total_user_ingredients?: number
-    missing_ingredients?: string[]
-    substitution_suggestions?: Record<string, string[]>
-    algorithm_used?: string
-  }
+  recipe: Recipe
+  /** Whether the user has saved this recipe; the favourite toggle is hidden when unknown. */
+  saved?: boolean
+  onSavedChange?: (saved: boolean) => void
+  /** The user's allergens; recipes containing any of them get a warning. */
+  allergens?: readonly Allergen[]
+  /** Ingredient names the user has, used to highlight substitutes for missing ones. */
+  availableIngredients?: readonly string[]
+  /** Called when a substitute is used for a missing ingredient. */
+  onRecipeChange?: (recipe: Recipe) => void
 }
 
-export function RecipeCard({ recipe }: RecipeCardProps) {
-  const formatTime = (time: number | string | undefined) => {
+const noAllergens: readonly Allergen[] = []
+
+export function RecipeCard({
+  recipe,
+  saved,
+  onSavedChange,
+  allergens = noAllergens,
+  availableIngredients = [],
+  onRecipeChange,
+}: RecipeCardProps) {
+  const formatTime = (time: number | undefined) => {
     if (!time) return null
-    if (typeof time === 'string') return time
     return `${time} mins`
   }
 
-  const totalTime = () => {
-    const prep = typeof recipe.prep_time === 'number' ? recipe.prep_time : 0
-    const cook = typeof recipe.cook_time === 'number' ? recipe.cook_time : 0
-    return prep + cook
-  }
+  const totalTime = () => (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+  // Low-confidence estimates are only shown on the detail page, with their caveats
+  const nutrition = React.useMemo(() => getRecipeNutrition(recipe), [recipe])
+  const calories = nutrition?.estimate?.confidence === "low" ? undefined : nutrition?.nutrition.calories
+
+  const allergenMatches = React.useMemo(() => matchUserAllergens(recipe, allergens), [recipe, allergens])
 
   const router = useRouter()
 
   const handleViewRecipe = () => {
-    // Store recipe in localStorage for the detail page
-    localStorage.setItem(`recipe_${recipe.id}`, JSON.stringify(recipe))
+    // Carry this search's match data over to the detail page
+    rememberRecipeMatch(recipe)
     // Navigate to recipe detail page
     router.push(`/recipe/${recipe.id}`)
   }
@@ -85,7 +94,12 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
       )}
       
       <CardHeader className="pb-3">
-        <CardTitle className="line-clamp-2 text-lg">{recipe.name}</CardTitle>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="line-clamp-2 text-lg">{recipe.name}</CardTitle>
+          {saved !== undefined && (
+            <FavouriteButton recipe={recipe} saved={saved} onSavedChange={onSavedChange} className="-mt-2 -mr-2" />
+          )}
+        </div>
         <CardDescription className="line-clamp-2 text-sm">{recipe.description}</CardDescription>
         
         {/* Cuisine and Algorithm badges */}
@@ -95,12 +109,24 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
               {recipe.cuisine}
             </Badge>
           )}
+          {calories !== undefined && calories > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs"
+              title={nutrition?.estimate ? "Estimated calories per serving" : "Calories per serving"}
+            >
+              🔥 {nutrition?.estimate && "≈"}
+              {formatCalories(calories)}
+            </Badge>
+          )}
           {recipe.algorithm_used && (
             <Badge variant="secondary" className="text-xs">
               AI: {recipe.algorithm_used.replace('_', ' ')}
             </Badge>
           )}
         </div>
+
+        <AllergenWarning matches={allergenMatches} />
       </CardHeader>
       
       <CardContent className="flex-1 space-y-3 pt-0">
@@ -189,9 +215,17 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
             <p className="text-xs font-semibold text-orange-800 mb-1">Missing:</p>
             <div className="flex flex-wrap gap-1">
               {recipe.missing_ingredients.slice(0, 3).map((ingredient, index) => (
-                <Badge key={index} variant="destructive" className="text-xs py-0">
-                  {ingredient}
-                </Badge>
+                <SubstitutionPopover
+                  key={index}
+                  recipe={recipe}
+                  ingredient={ingredient}
+                  available={availableIngredients}
+                  onCover={onRecipeChange && ((substitute) => onRecipeChange(coverMissingIngredient(recipe, ingredient, substitute)))}
+                >
+                  <Badge variant="destructive" className="text-xs py-0 cursor-pointer" title="See substitutes">
+                    {ingredient}
+                  </Badge>
+                </SubstitutionPopover>
               ))}
               {recipe.missing_ingredients.length > 3 && (
                 <Badge variant="destructive" className="text-xs py-0">
@@ -221,7 +255,10 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
         )}
       </CardContent>
       
-      <CardFooter className="pt-3">
+      <CardFooter className="pt-3 flex-col gap-2">
+        {recipe.missing_ingredients && recipe.missing_ingredients.length > 0 && (
+          <AddToShoppingListButton recipe={recipe} className="w-full text-sm" />
+        )}
         <Button 
           variant="default" 
           className="w-full text-sm"
@@ -0,0 +1,436 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { AddToShoppingListButton } from "@/components/add-to-shopping-list-button"
+import { AllergenWarning } from "@/components/allergen-warning"
+import { FavouriteButton } from "@/components/favourite-button"
+import { IngredientGapPanel } from "@/components/ingredient-gap-panel"
+import { NutritionPanel } from "@/components/nutrition-panel"
+import { SubstitutionPopover } from "@/components/substitution-popover"
+import { ArrowLeft, Clock, Users, ChefHat, Download, Minus, Pencil, Plus, Printer } from "lucide-react"
+import { allergenTaxonomy, detectAllergens, type Allergen } from "@/lib/allergens/taxonomy"
+import type { Recipe } from "@/lib/api/schemas"
+import { recallRecipeMatch, rememberRecipeMatch } from "@/lib/recipes/match-context"
+import { downloadFile, exportFileName, toJsonLd, toMarkdown, toPlainText } from "@/lib/recipes/export"
+import { getRecipeNutrition } from "@/lib/nutrition/calculator"
+import { coverMissingIngredient } from "@/lib/recipes/substitutions"
+import { MAX_SERVINGS, MIN_SERVINGS, clampServings, getBaseServings, scaleRecipe } from "@/lib/recipes/scale"
+import { formatAmountIn } from "@/lib/units/format"
+import type { UnitSystem } from "@/lib/units/units"
+
+interface RecipeDetailProps {
+  recipe: Recipe
+  initialServings: number
+  saved: boolean
+  /** The signed-in user wrote this recipe and may edit it. */
+  editable: boolean
+  /** The signed-in user's allergens, highlighted when the recipe contains them. */
+  userAllergens?: readonly Allergen[]
+  /** Names of the signed-in user's pantry items, for highlighting substitutes they have. */
+  pantryIngredients?: readonly string[]
+}
+
+export function RecipeDetail({
+  recipe: loadedRecipe,
+  initialServings,
+  saved,
+  editable,
+  userAllergens = [],
+  pantryIngredients = [],
+}: RecipeDetailProps) {
+  const router = useRouter()
+  const [recipe, setRecipe] = useState<Recipe>(loadedRecipe)
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null)
+  const [servings, setServings] = useState(initialServings)
+
+  useEffect(() => {
+    // Overlay match data from the search that led here, if any
+    const match = recallRecipeMatch(loadedRecipe.id)
+    setRecipe(match ? { ...loadedRecipe, ...match } : loadedRecipe)
+  }, [loadedRecipe])
+
+  const baseServings = getBaseServings(recipe)
+  const isScaled = servings !== baseServings
+  const scaledRecipe = useMemo(() => scaleRecipe(recipe, servings), [recipe, servings])
+  const nutrition = useMemo(() => getRecipeNutrition(recipe), [recipe])
+  const allergenMatches = useMemo(() => detectAllergens(recipe), [recipe])
+  const userAllergenMatches = allergenMatches.filter((match) => userAllergens.includes(match.allergen))
+
+  const coverIngredient = (ingredient: string, substitute: string) => {
+    const covered = coverMissingIngredient(recipe, ingredient, substitute)
+    setRecipe(covered)
+    // Keep it covered if the page is reloaded
+    rememberRecipeMatch(covered)
+  }
+
+  const changeServings = (next: number) => {
+    const clamped = clampServings(next)
+    setServings(clamped)
+    // Keep the count in the URL so print and shared links use the same amounts.
+    // history.replaceState avoids re-running the server component on every click.
+    const url = new URL(window.location.href)
+    if (clamped === baseServings) url.searchParams.delete("servings")
+    else url.searchParams.set("servings", String(clamped))
+    window.history.replaceState(null, "", url)
+  }
+
+  const exportAs = (format: "markdown" | "jsonld" | "text") => {
+    const options = { unitSystem }
+    if (format === "markdown") {
+      downloadFile(exportFileName(recipe.name, "md"), toMarkdown(scaledRecipe, options), "text/markdown")
+    } else if (format === "jsonld") {
+      const jsonLd = JSON.stringify(toJsonLd(scaledRecipe, options), null, 2)
+      downloadFile(exportFileName(recipe.name, "json"), jsonLd, "application/ld+json")
+    } else {
+      downloadFile(exportFileName(recipe.name, "txt"), toPlainText(scaledRecipe, options), "text/plain")
+    }
+  }
+
+  const openPrintView = () => {
+    const query = new URLSearchParams({ servings: String(servings) })
+    if (unitSystem) query.set("units", unitSystem)
+    window.open(`/recipe/${encodeURIComponent(recipe.id)}/print?${query}`, "_blank")
+  }
+
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      {/* Back Button */}
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <Button
+          variant="ghost"
+          onClick={() => router.push('/dashboard')}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Recipes
+        </Button>
+        <div className="flex gap-2">
+          {editable && (
+            <Button variant="outline" onClick={() => router.push(`/my-recipes/${recipe.id}/edit`)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => exportAs("markdown")}>Markdown (.md)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportAs("jsonld")}>Schema.org JSON-LD (.json)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportAs("text")}>Plain text (.txt)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={openPrintView}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print view
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          {/* Header */}
+          <Card>
+            <CardHeader>
+              {recipe.image_url && (
+                <div className="relative w-full h-64 md:h-96 rounded-lg overflow-hidden mb-4">
+                  <img
+                    src={recipe.image_url}
+                    alt={recipe.name}
+                    className="w-full h-full object-cover"
+                    onError={(e) => {
+                      e.currentTarget.src = 'https://images.unsplash.com/photo-1585937421612-70a008356fbe?w=800&h=600&fit=crop'
+                    }}
+                  />
+                  {recipe.match_percentage !== undefined && (
+                    <Badge 
+                      className="absolute top-4 right-4 text-lg px-4 py-2"
+                      variant={recipe.match_percentage >= 80 ? "default" : recipe.match_percentage >= 50 ? "secondary" : "outline"}
+                    >
+                      {recipe.match_percentage.toFixed(0)}% Match
+                    </Badge>
+                  )}
+                </div>
+              )}
+              
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-3xl md:text-4xl">{recipe.name}</CardTitle>
+                <FavouriteButton recipe={recipe} saved={saved} className="print:hidden" />
+              </div>
+              <CardDescription className="text-lg">{recipe.description}</CardDescription>
+              <AllergenWarning matches={userAllergenMatches} className="mt-2" />
+              
+              <div className="flex flex-wrap gap-2 mt-4">
+                {recipe.cuisine && (
+                  <Badge variant="outline">{recipe.cuisine}</Badge>
+                )}
+                {recipe.course && (
+                  <Badge variant="outline">{recipe.course}</Badge>
+                )}
+                {recipe.diet && (
+                  <Badge variant="secondary">{recipe.diet}</Badge>
+                )}
+                {recipe.difficulty && (
+                  <Badge variant="outline">{recipe.difficulty}</Badge>
+                )}
+              </div>
+            </CardHeader>
+          </Card>
+
+          {/* Ingredients */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-2xl">Ingredients</CardTitle>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={unitSystem ?? "original"}
+                onValueChange={(value) => value && setUnitSystem(value === "original" ? null : (value as UnitSystem))}
+              >
+                <ToggleGroupItem value="original">As written</ToggleGroupItem>
+                <ToggleGroupItem value="metric">Metric</ToggleGroupItem>
+                <ToggleGroupItem value="imperial">Imperial</ToggleGroupItem>
+              </ToggleGroup>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-3">
+                {scaledRecipe.ingredients.map((ingredient, index) => (
+                  <li key={index} className="flex items-start">
+                    <span className="text-primary mr-3">•</span>
+                    <span className="flex-1">
+                      <span className="font-medium">{ingredient.name}</span>
+                      {(ingredient.quantity || ingredient.unit) && (
+                        <span className="text-muted-foreground ml-2">
+                          ({formatAmountIn(ingredient.quantity, ingredient.unit, unitSystem)})
+                        </span>
+                      )}
+                      {isScaled && ingredient.scalesNonLinearly && (
+                        <Badge variant="outline" className="ml-2 text-xs text-amber-700 border-amber-300">
+                          adjust to taste
+                        </Badge>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {/* Gap Analysis */}
+          <div className="print:hidden">
+            <IngredientGapPanel recipe={scaledRecipe} pantryIngredients={pantryIngredients} />
+          </div>
+
+          {/* Instructions */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Instructions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {recipe.instructions.map((instruction, index) => (
+                  <li key={index} className="flex items-start">
+                    <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center mr-4 font-bold">
+                      {index + 1}
+                    </span>
+                    <p className="flex-1 pt-1">{instruction}</p>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          {/* Nutrition */}
+          {nutrition && (
+            <NutritionPanel nutrition={nutrition.nutrition} estimate={nutrition.estimate} servings={servings} />
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Recipe Info */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Recipe Info</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {recipe.prep_time && (
+                <div className="flex items-center gap-3">
+                  <Clock className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Prep Time</p>
+                    <p className="font-medium">{recipe.prep_time} mins</p>
+                  </div>
+                </div>
+              )}
+              
+              {recipe.cook_time && (
+                <div className="flex items-center gap-3">
+                  <ChefHat className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Cook Time</p>
+                    <p className="font-medium">{recipe.cook_time} mins</p>
+                  </div>
+                </div>
+              )}
+              
+              {totalTime > 0 && (
+                <div className="flex items-center gap-3">
+                  <Clock className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total Time</p>
+                    <p className="font-medium">{totalTime} mins</p>
+                  </div>
+                </div>
+              )}
+              
+              <div className="flex items-center gap-3">
+                <Users className="h-5 w-5 text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="text-sm text-muted-foreground">Servings</p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7 print:hidden"
+                      onClick={() => changeServings(servings - 1)}
+                      disabled={servings <= MIN_SERVINGS}
+                      aria-label="Fewer servings"
+                    >
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <p className="font-medium min-w-[5rem] text-center">{servings} people</p>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7 print:hidden"
+                      onClick={() => changeServings(servings + 1)}
+                      disabled={servings >= MAX_SERVINGS}
+                      aria-label="More servings"
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {isScaled && (
+                    <button
+                      className="text-xs text-muted-foreground underline print:hidden"
+                      onClick={() => changeServings(baseServings)}
+                    >
+                      {recipe.servings ? `Reset to ${baseServings}` : `Reset (recipe doesn't say, assumed ${baseServings})`}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Allergens */}
+          {allergenMatches.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Allergens</CardTitle>
+                <CardDescription>Detected from the ingredient names; check packaged ingredients yourself.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3">
+                  {allergenMatches.map((match) => {
+                    const avoided = userAllergens.includes(match.allergen)
+                    return (
+                      <li
+                        key={match.allergen}
+                        className={avoided ? "p-2 bg-red-50 border border-red-200 rounded-lg text-red-700" : undefined}
+                      >
+                        <p className="font-medium">
+                          {avoided && "⚠️ "}
+                          {allergenTaxonomy[match.allergen].label}
+                        </p>
+                        <p className={`text-sm capitalize ${avoided ? "text-red-600" : "text-muted-foreground"}`}>
+                          {match.ingredients.join(", ")}
+                        </p>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Match Information */}
+          {recipe.total_matched !== undefined && recipe.total_user_ingredients !== undefined && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Ingredients</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-center">
+                  <div className="text-4xl font-bold text-primary">
+                    {recipe.total_matched}/{recipe.total_user_ingredients}
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Ingredients you have
+                  </p>
+                </div>
+
+                {recipe.matched_ingredients && recipe.matched_ingredients.length > 0 && (
+                  <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="font-semibold text-green-700 mb-2">✓ You have:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {recipe.matched_ingredients.map((ing, idx) => (
+                        <Badge key={idx} variant="outline" className="bg-white">
+                          {ing}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {recipe.missing_ingredients && recipe.missing_ingredients.length > 0 && (
+                  <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                    <p className="font-semibold text-orange-700 mb-2">🛒 You need:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {recipe.missing_ingredients.map((ing, idx) => (
+                        <SubstitutionPopover
+                          key={idx}
+                          recipe={recipe}
+                          ingredient={ing}
+                          available={[...pantryIngredients, ...(recipe.matched_ingredients ?? [])]}
+                          onCover={(substitute) => coverIngredient(ing, substitute)}
+                        >
+                          <Badge variant="outline" className="bg-white cursor-pointer hover:bg-orange-100">
+                            {ing}
+                          </Badge>
+                        </SubstitutionPopover>
+                      ))}
+                    </div>
+                    <p className="text-xs text-orange-700 mt-2">Tap an ingredient to see substitutes.</p>
+                    <AddToShoppingListButton recipe={scaledRecipe} className="w-full mt-3" />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
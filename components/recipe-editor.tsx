@@ -0,0 +1,403 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { ImportRecipeDialog } from "@/components/import-recipe-dialog"
+import { createRecipe, deleteRecipe, updateRecipe } from "@/app/my-recipes/actions"
+import type { Recipe } from "@/lib/api/schemas"
+import {
+  recipeDifficulties,
+  recipeFormSchema,
+  recipeToFormValues,
+  type RecipeFormValues,
+} from "@/lib/recipes/editor"
+
+interface RecipeEditorProps {
+  /** Set when editing an existing recipe; omitted when creating one. */
+  recipeId?: string
+  defaultValues: RecipeFormValues
+  /** Open the import dialog straight away (new recipes only). */
+  startWithImport?: boolean
+}
+
+export function RecipeEditor({ recipeId, defaultValues, startWithImport = false }: RecipeEditorProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [pending, startTransition] = useTransition()
+
+  const form = useForm<RecipeFormValues>({
+    resolver: zodResolver(recipeFormSchema),
+    defaultValues,
+  })
+  const ingredients = useFieldArray({ control: form.control, name: "ingredients" })
+  const steps = useFieldArray({ control: form.control, name: "steps" })
+  const imageUrl = form.watch("image_url")
+
+  const handleImport = (recipe: Recipe) => {
+    form.reset(recipeToFormValues(recipe, form.getValues("is_public")))
+    toast({
+      title: "Recipe Imported",
+      description: `${recipe.ingredients.length} ingredients and ${recipe.instructions.length} steps. Review them before saving.`,
+    })
+  }
+
+  const onSubmit = (values: RecipeFormValues) => {
+    startTransition(async () => {
+      const result = recipeId ? await updateRecipe(recipeId, values) : await createRecipe(values)
+      if (result.error !== undefined) {
+        toast({ title: "Recipe Error", description: result.error, variant: "destructive" })
+        return
+      }
+      toast({ title: recipeId ? "Recipe Updated" : "Recipe Created", description: values.name })
+      router.push(`/recipe/${result.data}`)
+      router.refresh()
+    })
+  }
+
+  const handleDelete = () => {
+    if (!recipeId || !window.confirm("Delete this recipe? This can't be undone.")) return
+    startTransition(async () => {
+      const result = await deleteRecipe(recipeId)
+      if (result.error !== undefined) {
+        toast({ title: "Recipe Error", description: result.error, variant: "destructive" })
+        return
+      }
+      router.push("/my-recipes")
+      router.refresh()
+    })
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Details</CardTitle>
+            {!recipeId && <ImportRecipeDialog onImport={handleImport} defaultOpen={startWithImport} />}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Grandma's dal makhani" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="cuisine"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cuisine</FormLabel>
+                    <FormControl>
+                      <Input placeholder="North Indian" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="diet"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Diet</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Vegetarian" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="difficulty"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Difficulty</FormLabel>
+                    <Select value={field.value || undefined} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not set" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {recipeDifficulties.map((difficulty) => (
+                          <SelectItem key={difficulty} value={difficulty}>
+                            {difficulty}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {(
+                [
+                  ["prep_time", "Prep time (mins)"],
+                  ["cook_time", "Cook time (mins)"],
+                  ["servings", "Servings"],
+                ] as const
+              ).map(([name, label]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="image_url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Image URL</FormLabel>
+                  <div className="flex gap-4 items-start">
+                    <div className="flex-1 space-y-2">
+                      <FormControl>
+                        <Input type="url" placeholder="https://..." {...field} />
+                      </FormControl>
+                      <FormDescription>Link to a photo of the finished dish.</FormDescription>
+                      <FormMessage />
+                    </div>
+                    {/^https?:\/\//i.test(imageUrl) && (
+                      <img
+                        src={imageUrl}
+                        alt="Recipe preview"
+                        className="h-20 w-28 rounded-md object-cover border"
+                        onError={(e) => {
+                          e.currentTarget.style.display = "none"
+                        }}
+                        onLoad={(e) => {
+                          e.currentTarget.style.display = ""
+                        }}
+                      />
+                    )}
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="is_public"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel>Publish</FormLabel>
+                    <FormDescription>
+                      Published recipes show up in everyone&apos;s searches. Private ones are only visible to you.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ingredients</CardTitle>
+            <CardDescription>Quantity and unit are optional, e.g. leave both blank for &quot;salt to taste&quot;.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {ingredients.fields.map((row, index) => (
+              <div key={row.id} className="flex gap-2 items-start">
+                <FormField
+                  control={form.control}
+                  name={`ingredients.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input placeholder="Ingredient" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`ingredients.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem className="w-24">
+                      <FormControl>
+                        <Input type="number" step="any" min={0} placeholder="Qty" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`ingredients.${index}.unit`}
+                  render={({ field }) => (
+                    <FormItem className="w-28">
+                      <FormControl>
+                        <Input placeholder="Unit" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => ingredients.remove(index)}
+                  disabled={ingredients.fields.length === 1}
+                  aria-label="Remove ingredient"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {form.formState.errors.ingredients?.root && (
+              <p className="text-destructive text-sm">{form.formState.errors.ingredients.root.message}</p>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => ingredients.append({ name: "", quantity: "", unit: "" })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Ingredient
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Steps</CardTitle>
+            <CardDescription>Use the arrows to reorder steps.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {steps.fields.map((row, index) => (
+              <div key={row.id} className="flex gap-2 items-start">
+                <span className="flex-shrink-0 w-8 h-8 mt-1 rounded-full bg-primary text-primary-foreground flex items-center justify-center font-bold">
+                  {index + 1}
+                </span>
+                <FormField
+                  control={form.control}
+                  name={`steps.${index}.text`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Textarea rows={2} placeholder="Describe this step" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex flex-col">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => steps.move(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label="Move step up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => steps.move(index, index + 1)}
+                    disabled={index === steps.fields.length - 1}
+                    aria-label="Move step down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => steps.remove(index)}
+                  disabled={steps.fields.length === 1}
+                  aria-label="Remove step"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {form.formState.errors.steps?.root && (
+              <p className="text-destructive text-sm">{form.formState.errors.steps.root.message}</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => steps.append({ text: "" })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Step
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between">
+          {recipeId ? (
+            <Button type="button" variant="destructive" onClick={handleDelete} disabled={pending}>
+              Delete Recipe
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" onClick={() => router.back()}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={pending}>
+              {pending ? "Saving..." : recipeId ? "Save Changes" : "Create Recipe"}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Recipe } from "@/lib/api/schemas"
+import {
+  emptyRecipeFilters,
+  filterOptions,
+  hasActiveFilters,
+  type RecipeFilters,
+  type RecipeSort,
+} from "@/lib/recipes/filters"
+
+interface RecipeFilterBarProps {
+  /** The unfiltered results, used to offer only values that occur in them. */
+  recipes: Recipe[]
+  filters: RecipeFilters
+  onFiltersChange: (filters: RecipeFilters) => void
+}
+
+// Radix Select can't use an empty string as an item value
+const ANY = "any"
+
+const timeLimits = [15, 30, 45, 60, 90]
+const matchMinimums = [25, 50, 75, 90]
+const sortLabels: Record<RecipeSort, string> = {
+  "best-match": "Best match",
+  quickest: "Quickest",
+  "fewest-missing": "Fewest missing",
+}
+
+interface FilterSelectProps {
+  id: string
+  label: string
+  value: string | null
+  anyLabel: string
+  options: { value: string; label: string }[]
+  onChange: (value: string | null) => void
+}
+
+function FilterSelect({ id, label, value, anyLabel, options, onChange }: FilterSelectProps) {
+  // Keep a value from a shared link selectable even if these results don't have it
+  const allOptions = value && !options.some((option) => option.value === value) ? [...options, { value, label: value }] : options
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Select value={value ?? ANY} onValueChange={(selected) => onChange(selected === ANY ? null : selected)}>
+        <SelectTrigger id={id} className="h-9 w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{anyLabel}</SelectItem>
+          {allOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="capitalize">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function RecipeFilterBar({ recipes, filters, onFiltersChange }: RecipeFilterBarProps) {
+  const update = (changes: Partial<RecipeFilters>) => onFiltersChange({ ...filters, ...changes })
+  const number = (value: string | null) => (value === null ? null : Number(value))
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <FilterSelect
+        id="filter-cuisine"
+        label="Cuisine"
+        anyLabel="Any cuisine"
+        value={filters.cuisine}
+        options={filterOptions(recipes, "cuisine")}
+        onChange={(cuisine) => update({ cuisine })}
+      />
+      <FilterSelect
+        id="filter-diet"
+        label="Diet"
+        anyLabel="Any diet"
+        value={filters.diet}
+        options={filterOptions(recipes, "diet")}
+        onChange={(diet) => update({ diet })}
+      />
+      <FilterSelect
+        id="filter-time"
+        label="Total time"
+        anyLabel="Any time"
+        value={filters.maxTime === null ? null : String(filters.maxTime)}
+        options={timeLimits.map((minutes) => ({ value: String(minutes), label: `≤ ${minutes} mins` }))}
+        onChange={(maxTime) => update({ maxTime: number(maxTime) })}
+      />
+      <FilterSelect
+        id="filter-difficulty"
+        label="Difficulty"
+        anyLabel="Any difficulty"
+        value={filters.difficulty}
+        options={filterOptions(recipes, "difficulty")}
+        onChange={(difficulty) => update({ difficulty })}
+      />
+      <FilterSelect
+        id="filter-match"
+        label="Match"
+        anyLabel="Any match"
+        value={filters.minMatch === null ? null : String(filters.minMatch)}
+        options={matchMinimums.map((percentage) => ({ value: String(percentage), label: `≥ ${percentage}%` }))}
+        onChange={(minMatch) => update({ minMatch: number(minMatch) })}
+      />
+      <FilterSelect
+        id="filter-sort"
+        label="Sort by"
+        anyLabel="Relevance"
+        value={filters.sort}
+        options={Object.entries(sortLabels).map(([value, label]) => ({ value, label }))}
+        onChange={(sort) => update({ sort: sort as RecipeSort | null })}
+      />
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={() => onFiltersChange(emptyRecipeFilters)}>
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
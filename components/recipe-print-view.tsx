@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Recipe } from "@/lib/api/schemas"
+import { formatIngredientLine, matchSummaryLines } from "@/lib/recipes/export"
+import { recallRecipeMatch } from "@/lib/recipes/match-context"
+import { scaleRecipe } from "@/lib/recipes/scale"
+import type { UnitSystem } from "@/lib/units/units"
+
+interface RecipePrintViewProps {
+  recipe: Recipe
+  servings: number
+  unitSystem: UnitSystem | null
+}
+
+/** Plain, ink-friendly layout of a recipe that opens the print dialog once loaded. */
+export function RecipePrintView({ recipe: loadedRecipe, servings, unitSystem }: RecipePrintViewProps) {
+  const [recipe, setRecipe] = useState<Recipe>(loadedRecipe)
+
+  useEffect(() => {
+    const match = recallRecipeMatch(loadedRecipe.id)
+    setRecipe(match ? { ...loadedRecipe, ...match } : loadedRecipe)
+    // Let the match overlay render before the dialog snapshots the page
+    const timer = window.setTimeout(() => window.print(), 300)
+    return () => window.clearTimeout(timer)
+  }, [loadedRecipe])
+
+  const scaled = useMemo(() => scaleRecipe(recipe, servings), [recipe, servings])
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+  const match = matchSummaryLines(recipe)
+
+  return (
+    <article className="recipe-print mx-auto max-w-3xl p-8 space-y-6 text-black bg-white">
+      <div className="flex justify-end print:hidden">
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      <header className="space-y-2 border-b pb-4">
+        <h1 className="text-3xl font-bold">{recipe.name}</h1>
+        {recipe.description && <p className="text-gray-700">{recipe.description}</p>}
+        <p className="text-sm text-gray-600">
+          {[
+            `Serves ${servings}`,
+            recipe.prep_time && `Prep ${recipe.prep_time} mins`,
+            recipe.cook_time && `Cook ${recipe.cook_time} mins`,
+            totalTime > 0 && `Total ${totalTime} mins`,
+            recipe.cuisine,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </header>
+
+      <section className="break-inside-avoid">
+        <h2 className="text-xl font-semibold mb-2">Ingredients</h2>
+        <ul className="list-disc pl-6 space-y-1 columns-1 sm:columns-2 print:columns-2">
+          {scaled.ingredients.map((ingredient, index) => (
+            <li key={index}>{formatIngredientLine(ingredient, unitSystem)}</li>
+          ))}
+        </ul>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold mb-2">Instructions</h2>
+        <ol className="list-decimal pl-6 space-y-2">
+          {recipe.instructions.map((step, index) => (
+            <li key={index} className="break-inside-avoid">
+              {step}
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {match.length > 0 && (
+        <section className="border-t pt-4 text-sm break-inside-avoid">
+          <h2 className="font-semibold mb-1">Your Ingredients</h2>
+          {match.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </section>
+      )}
+    </article>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useMemo, useState, useTransition } from "react"
+import Link from "next/link"
+import { BookOpen, Download, Trash2 } from "lucide-react"
+import { RecipeCard } from "@/components/recipe-card"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { createCookbook, deleteCookbook, setCookbookMembership } from "@/app/saved/actions"
+import type { Allergen } from "@/lib/allergens/taxonomy"
+import { downloadFile, exportFileName, toJsonLdBundle } from "@/lib/recipes/export"
+import type { Cookbook, SavedRecipe } from "@/lib/saved/schemas"
+
+interface SavedRecipesManagerProps {
+  initialSaved: SavedRecipe[]
+  initialCookbooks: Cookbook[]
+  loadError?: string
+  allergens?: readonly Allergen[]
+}
+
+// Matches the filter against name, cuisine, diet, course and ingredient names
+function matchesFilter(saved: SavedRecipe, filter: string): boolean {
+  const { recipe } = saved
+  const haystack = [recipe.name, recipe.cuisine, recipe.diet, recipe.course, ...recipe.ingredients.map((i) => i.name)]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+  return filter
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word))
+}
+
+export function SavedRecipesManager({ initialSaved, initialCookbooks, loadError, allergens }: SavedRecipesManagerProps) {
+  const [saved, setSaved] = useState<SavedRecipe[]>(initialSaved)
+  const [cookbooks, setCookbooks] = useState<Cookbook[]>(initialCookbooks)
+  const [activeCookbookId, setActiveCookbookId] = useState<string | null>(null)
+  const [filter, setFilter] = useState("")
+  const [newCookbookName, setNewCookbookName] = useState("")
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({ title: "Saved Recipes Error", description, variant: "destructive" })
+  }
+
+  const visibleRecipes = useMemo(
+    () =>
+      saved.filter(
+        (entry) =>
+          (activeCookbookId === null || entry.cookbook_ids.includes(activeCookbookId)) && matchesFilter(entry, filter),
+      ),
+    [saved, activeCookbookId, filter],
+  )
+
+  const activeCookbook = cookbooks.find((cookbook) => cookbook.id === activeCookbookId)
+
+  // Export covers the whole cookbook (or every save), ignoring the text filter
+  const exportableRecipes = saved
+    .filter((entry) => activeCookbookId === null || entry.cookbook_ids.includes(activeCookbookId))
+    .map((entry) => entry.recipe)
+
+  const handleExport = () => {
+    const name = activeCookbook?.name ?? "Saved recipes"
+    const bundle = JSON.stringify(toJsonLdBundle(name, exportableRecipes), null, 2)
+    downloadFile(exportFileName(name, "json"), bundle, "application/ld+json")
+  }
+
+  const handleCreateCookbook = () => {
+    if (!newCookbookName.trim()) return
+    startTransition(async () => {
+      const result = await createCookbook(newCookbookName)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setCookbooks((current) => [...current, result.data].sort((a, b) => a.name.localeCompare(b.name)))
+      setNewCookbookName("")
+    })
+  }
+
+  const handleDeleteCookbook = (cookbook: Cookbook) => {
+    startTransition(async () => {
+      const result = await deleteCookbook(cookbook.id)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setCookbooks((current) => current.filter((entry) => entry.id !== cookbook.id))
+      setSaved((current) =>
+        current.map((entry) => ({ ...entry, cookbook_ids: entry.cookbook_ids.filter((id) => id !== cookbook.id) })),
+      )
+      if (activeCookbookId === cookbook.id) setActiveCookbookId(null)
+    })
+  }
+
+  const handleMembership = (entry: SavedRecipe, cookbookId: string, member: boolean) => {
+    startTransition(async () => {
+      const result = await setCookbookMembership(entry.id, cookbookId, member)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setSaved((current) =>
+        current.map((candidate) =>
+          candidate.id === entry.id
+            ? {
+                ...candidate,
+                cookbook_ids: member
+                  ? [...candidate.cookbook_ids, cookbookId]
+                  : candidate.cookbook_ids.filter((id) => id !== cookbookId),
+              }
+            : candidate,
+        ),
+      )
+    })
+  }
+
+  if (loadError) {
+    return <p className="text-destructive">{loadError}</p>
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Cookbooks */}
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle>Cookbooks</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <nav className="space-y-1">
+            <Button
+              variant={activeCookbookId === null ? "secondary" : "ghost"}
+              className="w-full justify-between"
+              onClick={() => setActiveCookbookId(null)}
+            >
+              All saved
+              <span className="text-muted-foreground">{saved.length}</span>
+            </Button>
+            {cookbooks.map((cookbook) => (
+              <div key={cookbook.id} className="group flex items-center gap-1">
+                <Button
+                  variant={activeCookbookId === cookbook.id ? "secondary" : "ghost"}
+                  className="flex-1 justify-between min-w-0"
+                  onClick={() => setActiveCookbookId(cookbook.id)}
+                >
+                  <span className="truncate">{cookbook.name}</span>
+                  <span className="text-muted-foreground">
+                    {saved.filter((entry) => entry.cookbook_ids.includes(cookbook.id)).length}
+                  </span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={() => handleDeleteCookbook(cookbook)}
+                  disabled={pending}
+                  aria-label={`Delete cookbook ${cookbook.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </nav>
+          <div className="flex gap-2">
+            <Input
+              placeholder="New cookbook"
+              value={newCookbookName}
+              onChange={(e) => setNewCookbookName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreateCookbook()}
+            />
+            <Button onClick={handleCreateCookbook} disabled={pending || !newCookbookName.trim()}>
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recipes */}
+      <div className="lg:col-span-3 space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Filter by name, cuisine, diet or ingredient..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={exportableRecipes.length === 0}
+            title="Download as a schema.org JSON-LD bundle"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export {activeCookbook ? "Cookbook" : "All"}
+          </Button>
+        </div>
+
+        {saved.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            <p className="text-lg mb-2">No saved recipes yet</p>
+            <p>
+              Tap the heart on any recipe on the{" "}
+              <Link href="/dashboard" className="underline">
+                dashboard
+              </Link>{" "}
+              to save it here.
+            </p>
+          </Card>
+        ) : visibleRecipes.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            <p>No saved recipes match this {filter ? "filter" : "cookbook"}.</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {visibleRecipes.map((entry) => (
+              <div key={entry.id} className="flex flex-col gap-2">
+                <RecipeCard
+                  recipe={entry.recipe}
+                  saved
+                  onSavedChange={(isSaved) => {
+                    if (!isSaved) setSaved((current) => current.filter((candidate) => candidate.id !== entry.id))
+                  }}
+                  allergens={allergens}
+                />
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full">
+                      <BookOpen className="mr-2 h-4 w-4" />
+                      {entry.cookbook_ids.length > 0
+                        ? `In ${entry.cookbook_ids.length} cookbook${entry.cookbook_ids.length === 1 ? "" : "s"}`
+                        : "Add to cookbook"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="w-56">
+                    <DropdownMenuLabel>Cookbooks</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {cookbooks.length === 0 ? (
+                      <p className="px-2 py-1.5 text-sm text-muted-foreground">Create a cookbook first.</p>
+                    ) : (
+                      cookbooks.map((cookbook) => (
+                        <DropdownMenuCheckboxItem
+                          key={cookbook.id}
+                          checked={entry.cookbook_ids.includes(cookbook.id)}
+                          disabled={pending}
+                          onCheckedChange={(checked) => handleMembership(entry, cookbook.id, checked === true)}
+                          onSelect={(e) => e.preventDefault()}
+                        >
+                          {cookbook.name}
+                        </DropdownMenuCheckboxItem>
+                      ))
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
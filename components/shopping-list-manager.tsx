@@ -0,0 +1,125 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import { deleteShoppingListItem, moveCheckedToPantry, setShoppingListItemChecked } from "@/app/shopping-list/actions"
+import type { ShoppingListItem } from "@/lib/shopping-list/schemas"
+import { formatAmount } from "@/lib/units/format"
+
+interface ShoppingListManagerProps {
+  initialItems: ShoppingListItem[]
+  loadError?: string
+}
+
+export function ShoppingListManager({ initialItems, loadError }: ShoppingListManagerProps) {
+  const [items, setItems] = useState<ShoppingListItem[]>(initialItems)
+  const [pending, startTransition] = useTransition()
+  const { toast } = useToast()
+
+  const checkedCount = items.filter((item) => item.checked).length
+
+  const showError = (description: string) => {
+    toast({ title: "Shopping List Error", description, variant: "destructive" })
+  }
+
+  const handleToggle = (item: ShoppingListItem, checked: boolean) => {
+    // Tick immediately; roll back if the update fails
+    setItems((current) => current.map((entry) => (entry.id === item.id ? { ...entry, checked } : entry)))
+    startTransition(async () => {
+      const result = await setShoppingListItemChecked(item.id, checked)
+      if (result.error !== undefined) {
+        showError(result.error)
+        setItems((current) => current.map((entry) => (entry.id === item.id ? item : entry)))
+      }
+    })
+  }
+
+  const handleDelete = (id: string) => {
+    startTransition(async () => {
+      const result = await deleteShoppingListItem(id)
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setItems((current) => current.filter((item) => item.id !== id))
+    })
+  }
+
+  const handleMoveToPantry = () => {
+    startTransition(async () => {
+      const result = await moveCheckedToPantry()
+      if (result.error !== undefined) {
+        showError(result.error)
+        return
+      }
+      setItems((current) => current.filter((item) => !item.checked))
+      toast({
+        title: "🥫 Added to Pantry",
+        description: `Moved ${result.data} item${result.data === 1 ? "" : "s"} into your pantry.`,
+      })
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>To Buy ({items.length - checkedCount})</CardTitle>
+          <CardDescription>Tick items off as you shop, then move them into your pantry.</CardDescription>
+        </div>
+        <Button onClick={handleMoveToPantry} disabled={pending || checkedCount === 0}>
+          Move {checkedCount > 0 ? checkedCount : ""} Checked to Pantry
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loadError ? (
+          <p className="text-destructive">{loadError}</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">
+            Your shopping list is empty. Add missing ingredients from any recipe on the{" "}
+            <Link href="/dashboard" className="underline">
+              dashboard
+            </Link>
+            .
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {items.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 py-3">
+                <Checkbox
+                  id={`shopping-item-${item.id}`}
+                  checked={item.checked}
+                  onCheckedChange={(checked) => handleToggle(item, checked === true)}
+                />
+                <label
+                  htmlFor={`shopping-item-${item.id}`}
+                  className={`flex-1 cursor-pointer ${item.checked ? "line-through text-muted-foreground" : ""}`}
+                >
+                  <span className="font-medium capitalize">{item.name}</span>
+                  {item.quantity !== null && (
+                    <span className="text-muted-foreground"> · {formatAmount(item.quantity, item.unit)}</span>
+                  )}
+                </label>
+                <div className="hidden md:flex flex-wrap justify-end gap-1">
+                  {item.recipe_names.map((recipeName) => (
+                    <Badge key={recipeName} variant="outline" className="text-xs">
+                      {recipeName}
+                    </Badge>
+                  ))}
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)} disabled={pending}>
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getIngredientSubstitutions } from "@/lib/api/client"
+import { isBackendUnavailable } from "@/lib/api/errors"
+import type { GraphSubstitution, Recipe } from "@/lib/api/schemas"
+import { substituteOptions } from "@/lib/recipes/substitutions"
+
+interface SubstitutionPopoverProps {
+  recipe: Recipe
+  /** The missing ingredient. */
+  ingredient: string
+  /** Ingredient names the user has, from their pantry and search. */
+  available: readonly string[]
+  /** Called with the chosen substitute; without it the popover only lists them. */
+  onCover?: (substitute: string) => void
+  /** The trigger, usually the ingredient's badge. */
+  children: ReactNode
+}
+
+type GraphState =
+  | { status: "idle" | "loading" }
+  | { status: "loaded"; substitutions: GraphSubstitution[] }
+  | { status: "failed"; message: string }
+
+export function SubstitutionPopover({ recipe, ingredient, available, onCover, children }: SubstitutionPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [graph, setGraph] = useState<GraphState>({ status: "idle" })
+
+  // Fetched on first open; most missing ingredients are never looked at
+  const loadSubstitutions = async () => {
+    setGraph({ status: "loading" })
+    try {
+      const response = await getIngredientSubstitutions(ingredient, 5)
+      setGraph({ status: "loaded", substitutions: response.substitutions })
+    } catch (error) {
+      console.error("Error loading substitutions:", error)
+      setGraph({
+        status: "failed",
+        message: isBackendUnavailable(error)
+          ? "Similarity scores need the recipe server, which isn't reachable."
+          : "Couldn't load substitutes for this ingredient.",
+      })
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next && graph.status === "idle") loadSubstitutions()
+  }
+
+  const options = substituteOptions(recipe, ingredient, graph.status === "loaded" ? graph.substitutions : [], available)
+
+  const cover = (substitute: string) => {
+    setOpen(false)
+    onCover?.(substitute)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="start">
+        <div className="space-y-1">
+          <p className="font-medium">
+            Substitutes for <span className="capitalize">{ingredient}</span>
+          </p>
+          <p className="text-sm text-muted-foreground">Ones you already have are highlighted.</p>
+        </div>
+
+        {graph.status === "loading" && (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        )}
+
+        {options.length > 0 ? (
+          <ul className="space-y-2">
+            {options.map((option) => (
+              <li
+                key={option.ingredient}
+                className={`flex items-center justify-between gap-2 rounded-md border p-2 text-sm ${
+                  option.available ? "bg-green-50 border-green-200" : ""
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium capitalize flex items-center gap-2">
+                    {option.ingredient}
+                    {option.available && (
+                      <Badge variant="outline" className="text-xs bg-white text-green-700 border-green-200">
+                        You have it
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {option.score !== null && `${Math.round(option.score * 100)}% similar · `}
+                    {option.reason}
+                  </p>
+                </div>
+                {onCover && (
+                  <Button
+                    size="sm"
+                    variant={option.available ? "default" : "outline"}
+                    className="shrink-0"
+                    onClick={() => cover(option.ingredient)}
+                  >
+                    Use
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          graph.status !== "loading" &&
+          graph.status !== "idle" && <p className="text-sm text-muted-foreground">No substitutes known.</p>
+        )}
+
+        {graph.status === "failed" && <p className="text-xs text-muted-foreground">{graph.message}</p>}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,118 @@
+import type { Recipe } from "@/lib/api/schemas"
+import { wordPattern } from "@/lib/ingredients/match"
+
+export const allergens = ["nuts", "dairy", "gluten", "shellfish", "sesame"] as const
+
+export type Allergen = (typeof allergens)[number]
+
+interface AllergenDefinition {
+  label: string
+  /** Ingredient names, synonyms and regional names that contain the allergen. */
+  keywords: string[]
+  /** Names that contain a keyword but not the allergen, e.g. "coconut milk" for dairy. */
+  exceptions: string[]
+}
+
+export const allergenTaxonomy: Record<Allergen, AllergenDefinition> = {
+  nuts: {
+    label: "Nuts",
+    keywords: [
+      "nut", "almond", "badam", "cashew", "kaju", "walnut", "akhrot", "pistachio", "pista", "hazelnut", "pecan",
+      "macadamia", "brazil nut", "pine nut", "chilgoza", "peanut", "groundnut", "moongphali", "mungfali",
+      "marzipan", "praline", "nut butter", "charoli", "chironji",
+    ],
+    exceptions: ["nutmeg", "coconut", "butternut", "water chestnut", "doughnut", "donut", "nutritional yeast"],
+  },
+  dairy: {
+    label: "Dairy",
+    keywords: [
+      "milk", "paneer", "cheese", "curd", "yogurt", "yoghurt", "dahi", "butter", "ghee", "cream", "malai", "khoya",
+      "khoa", "mawa", "buttermilk", "chaas", "lassi", "whey", "casein", "rabri", "chhena", "chenna", "makhan",
+      "condensed milk", "milk powder", "mascarpone", "ricotta", "mozzarella", "parmesan", "cheddar",
+    ],
+    exceptions: [
+      "coconut milk", "almond milk", "soy milk", "soya milk", "oat milk", "rice milk", "cashew milk", "coconut cream",
+      "peanut butter", "cocoa butter", "nut butter", "almond butter", "butternut", "butter beans", "cream of tartar",
+      "dairy-free", "vegan butter", "vegan cheese",
+    ],
+  },
+  gluten: {
+    label: "Gluten",
+    keywords: [
+      "wheat", "atta", "maida", "flour", "sooji", "suji", "semolina", "rava", "barley", "jau", "rye", "spelt",
+      "bread", "breadcrumbs", "pav", "bun", "naan", "roti", "chapati", "paratha", "pasta", "spaghetti", "macaroni",
+      "penne", "noodles", "vermicelli", "seviyan", "sevai", "couscous", "bulgur", "daliya", "dalia", "seitan",
+      "soy sauce", "soya sauce", "tortilla", "pita", "biscuit", "cracker", "hing", "asafoetida",
+      "doughnut", "donut", "cake", "cookie", "muffin", "pastry", "croissant", "bagel", "pizza", "dumpling",
+      "wonton", "ramen", "udon", "lasagna", "lasagne", "fettuccine", "panko", "crouton", "rusk", "malt", "malted",
+      "kulcha", "bhatura", "puri", "khakhra", "semiya",
+    ],
+    exceptions: [
+      "rice flour", "gram flour", "chickpea flour", "corn flour", "cornflour", "almond flour", "coconut flour",
+      "besan", "buckwheat", "rice noodles", "rice vermicelli", "corn tortilla", "tamari", "gluten-free",
+      "gluten free", "ragi flour", "jowar flour", "bajra flour", "tapioca flour", "potato flour", "rice cake",
+      // Spice blends named after the dish, not made with its bread
+      "pav bhaji masala", "vada pav masala", "paratha masala",
+    ],
+  },
+  shellfish: {
+    label: "Shellfish",
+    keywords: [
+      "prawn", "shrimp", "jhinga", "jheenga", "crab", "lobster", "crayfish", "langoustine", "scallop", "mussel",
+      "clam", "oyster", "squid", "calamari", "octopus", "kolambi", "shellfish",
+    ],
+    exceptions: [],
+  },
+  sesame: {
+    label: "Sesame",
+    keywords: ["sesame", "til", "tahini", "gingelly", "benne"],
+    exceptions: [],
+  },
+}
+
+const matchers = allergens.map((allergen) => ({
+  allergen,
+  keywords: allergenTaxonomy[allergen].keywords.map((keyword) => wordPattern(keyword, "g")),
+  exceptions: allergenTaxonomy[allergen].exceptions.map((exception) => wordPattern(exception, "g")),
+}))
+
+/** The allergens an ingredient name contains, in taxonomy order. */
+export function ingredientAllergens(name: string): Allergen[] {
+  const lower = name.trim().toLowerCase()
+  if (!lower) return []
+  return matchers
+    .filter(({ keywords, exceptions }) => {
+      // Blank out exception phrases so "coconut milk" can't match "milk"
+      const remaining = exceptions.reduce((text, pattern) => text.replace(pattern, " "), lower)
+      return keywords.some((pattern) => {
+        pattern.lastIndex = 0
+        return pattern.test(remaining)
+      })
+    })
+    .map(({ allergen }) => allergen)
+}
+
+export interface AllergenMatch {
+  allergen: Allergen
+  /** The recipe's ingredient names that contain it. */
+  ingredients: string[]
+}
+
+/** Every allergen found in a recipe's ingredients, with the ingredients that trigger it. */
+export function detectAllergens(recipe: Pick<Recipe, "ingredients">): AllergenMatch[] {
+  const found = new Map<Allergen, string[]>()
+  for (const ingredient of recipe.ingredients) {
+    for (const allergen of ingredientAllergens(ingredient.name)) {
+      const names = found.get(allergen) ?? []
+      if (!names.includes(ingredient.name)) names.push(ingredient.name)
+      found.set(allergen, names)
+    }
+  }
+  return allergens.filter((allergen) => found.has(allergen)).map((allergen) => ({ allergen, ingredients: found.get(allergen)! }))
+}
+
+/** The subset of a recipe's allergens the user has said they avoid. */
+export function matchUserAllergens(recipe: Pick<Recipe, "ingredients">, avoided: readonly Allergen[]): AllergenMatch[] {
+  if (!avoided.length) return []
+  return detectAllergens(recipe).filter((match) => avoided.includes(match.allergen))
+}
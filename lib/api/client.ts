@@ -0,0 +1,159 @@
+import type { z } from "zod"
+import { backendUrl } from "@/lib/api/config"
+import { ApiHttpError, ApiNetworkError, ApiSchemaError, ApiTimeoutError, isAbortError } from "@/lib/api/errors"
+import {
+  algorithmDemoSchema,
+  healthResponseSchema,
+  ingredientGapResponseSchema,
+  ingredientGraphSchema,
+  recipeListSchema,
+  recipeSchema,
+  recipeSearchResponseSchema,
+  substitutionsResponseSchema,
+  type AlgorithmDemo,
+  type HealthResponse,
+  type IngredientGapResponse,
+  type IngredientGraph,
+  type Recipe,
+  type RecipeRequest,
+  type RecipeSearchResponse,
+  type SubstitutionsResponse,
+  type SuggestRequest,
+} from "@/lib/api/schemas"
+
+// In the browser requests go through the same-origin proxy in app/api, which
+// attaches the signed-in user; server code calls the backend directly.
+const apiUrl = typeof window === "undefined" ? backendUrl : ""
+
+// The backend builds its ingredient graph lazily and can be slow on a cold start.
+const DEFAULT_TIMEOUT_MS = 60000
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+export interface SearchParams {
+  query?: string
+  ingredients?: string[]
+  /** Omit to use the user's dietary profile; null searches without one. */
+  cuisine?: string | null
+  diet?: string | null
+  limit?: number
+}
+
+async function request<S extends z.ZodTypeAny>(
+  path: string,
+  schema: S,
+  init: RequestInit,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions = {},
+): Promise<z.output<S>> {
+  const endpoint = path.split("?")[0]
+  const controller = new AbortController()
+  let timedOut = false
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort()
+  if (signal?.aborted) controller.abort()
+  signal?.addEventListener("abort", onAbort)
+
+  let response: Response
+  try {
+    response = await fetch(`${apiUrl}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+      signal: controller.signal,
+    })
+  } catch (error) {
+    if (timedOut) throw new ApiTimeoutError(endpoint, timeoutMs)
+    if (isAbortError(error)) throw error
+    throw new ApiNetworkError(endpoint, error)
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener("abort", onAbort)
+  }
+
+  if (!response.ok) {
+    let detail: string | undefined
+    try {
+      const body = await response.json()
+      detail = typeof body?.detail === "string" ? body.detail : undefined
+    } catch {
+      // Error bodies are best-effort; the status code is enough.
+    }
+    throw new ApiHttpError(endpoint, response.status, detail)
+  }
+
+  let payload: unknown
+  try {
+    payload = await response.json()
+  } catch (error) {
+    throw new ApiNetworkError(endpoint, error)
+  }
+
+  const parsed = schema.safeParse(payload)
+  if (!parsed.success) {
+    throw new ApiSchemaError(endpoint, parsed.error.issues)
+  }
+  return parsed.data
+}
+
+export function checkHealth(options?: RequestOptions): Promise<HealthResponse> {
+  return request("/api/health", healthResponseSchema, { method: "GET" }, options)
+}
+
+export function suggestRecipes(body: SuggestRequest, options?: RequestOptions): Promise<Recipe[]> {
+  return request("/api/recipes/suggest", recipeListSchema, { method: "POST", body: JSON.stringify(body) }, options)
+}
+
+export function searchRecipes(params: SearchParams, options?: RequestOptions): Promise<RecipeSearchResponse> {
+  const searchParams = new URLSearchParams()
+  if (params.query) searchParams.set("query", params.query)
+  if (params.ingredients?.length) searchParams.set("ingredients", params.ingredients.join(","))
+  if (params.cuisine !== undefined) searchParams.set("cuisine", params.cuisine ?? "")
+  if (params.diet !== undefined) searchParams.set("diet", params.diet ?? "")
+  if (params.limit) searchParams.set("limit", String(params.limit))
+
+  return request(`/api/recipes/search?${searchParams}`, recipeSearchResponseSchema, { method: "GET" }, options)
+}
+
+export function getRecipe(id: string, options?: RequestOptions): Promise<Recipe> {
+  // Not cached by Next: a recipe missing today may be in the dataset tomorrow.
+  return request(`/api/recipes/${encodeURIComponent(id)}`, recipeSchema, { method: "GET", cache: "no-store" }, options)
+}
+
+export function analyzeIngredientGap(
+  body: RecipeRequest & { target_recipe_id: string },
+  options?: RequestOptions,
+): Promise<IngredientGapResponse> {
+  return request(
+    "/api/ingredients/gap-analysis",
+    ingredientGapResponseSchema,
+    { method: "POST", body: JSON.stringify(body) },
+    options,
+  )
+}
+
+export function getIngredientSubstitutions(
+  ingredient: string,
+  limit = 5,
+  options?: RequestOptions,
+): Promise<SubstitutionsResponse> {
+  return request(
+    `/api/ingredients/substitutions/${encodeURIComponent(ingredient)}?limit=${limit}`,
+    substitutionsResponseSchema,
+    { method: "GET" },
+    options,
+  )
+}
+
+export function getIngredientGraph(options?: RequestOptions): Promise<IngredientGraph> {
+  return request("/api/ingredients/graph", ingredientGraphSchema, { method: "GET" }, options)
+}
+
+export function getAlgorithmDemo(options?: RequestOptions): Promise<AlgorithmDemo> {
+  return request("/api/algorithms/demo", algorithmDemoSchema, { method: "GET" }, options)
+}
@@ -0,0 +1,3 @@
+// Only read on the server. The browser talks to the route handlers under
+// app/api, so the FastAPI URL never needs to be exposed to the client.
+export const backendUrl = process.env.PANTRYIQ_API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000"
@@ -0,0 +1,74 @@
+import type { ZodError } from "zod"
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+/** The request did not finish within its timeout. */
+export class ApiTimeoutError extends ApiError {
+  constructor(
+    endpoint: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Request to ${endpoint} timed out after ${timeoutMs / 1000}s`, endpoint)
+    this.name = "ApiTimeoutError"
+  }
+}
+
+/** The backend could not be reached at all (server down, DNS, CORS). */
+export class ApiNetworkError extends ApiError {
+  constructor(
+    endpoint: string,
+    public readonly originalError?: unknown,
+  ) {
+    super(`Could not reach ${endpoint}`, endpoint)
+    this.name = "ApiNetworkError"
+  }
+}
+
+/** The backend answered with a non-2xx status. */
+export class ApiHttpError extends ApiError {
+  constructor(
+    endpoint: string,
+    public readonly status: number,
+    public readonly detail?: string,
+  ) {
+    super(detail ? `${endpoint} returned ${status}: ${detail}` : `${endpoint} returned ${status}`, endpoint)
+    this.name = "ApiHttpError"
+  }
+}
+
+/** The backend answered, but the payload does not match the expected schema. */
+export class ApiSchemaError extends ApiError {
+  constructor(
+    endpoint: string,
+    public readonly issues: ZodError["issues"],
+  ) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ")
+    super(`Unexpected response from ${endpoint}: ${summary}`, endpoint)
+    this.name = "ApiSchemaError"
+  }
+}
+
+/** True when the request was cancelled by the caller rather than failing. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError"
+}
+
+/** True when the backend is down or overloaded, as opposed to rejecting the request. */
+export function isBackendUnavailable(error: unknown): boolean {
+  return (
+    error instanceof ApiNetworkError ||
+    error instanceof ApiTimeoutError ||
+    (error instanceof ApiHttpError && [502, 503, 504].includes(error.status))
+  )
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server"
+import type { ZodError } from "zod"
+import { backendUrl } from "@/lib/api/config"
+import { createClient } from "@/lib/supabase/server"
+
+export const USER_ID_HEADER = "X-PantryIQ-User-Id"
+
+const DEFAULT_TIMEOUT_MS = 60000
+
+interface ProxyOptions {
+  method?: "GET" | "POST"
+  body?: unknown
+  timeoutMs?: number
+  requireUser?: boolean
+}
+
+/** Errors use FastAPI's `{ detail }` shape so clients only handle one format. */
+export function errorResponse(status: number, detail: string) {
+  return NextResponse.json({ detail }, { status })
+}
+
+export function validationErrorResponse(error: ZodError) {
+  return errorResponse(422, error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "))
+}
+
+/** Returns the verified Supabase user id, or null when nobody is signed in. */
+export async function getUserId(): Promise<string | null> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+  return error || !user ? null : user.id
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
+  try {
+    const body = await response.json()
+    if (typeof body?.detail === "string") return body.detail
+  } catch {
+    // Fall through to the generic message
+  }
+  return `Backend returned ${response.status}`
+}
+
+/**
+ * Forwards a request to the FastAPI backend with the caller's user id attached.
+ * Timeouts become 504, an unreachable backend 502, and backend errors keep
+ * their status with a normalised body.
+ */
+export async function proxyToBackend(
+  path: string,
+  { method = "GET", body, timeoutMs = DEFAULT_TIMEOUT_MS, requireUser = true }: ProxyOptions = {},
+) {
+  const userId = await getUserId()
+  if (requireUser && !userId) {
+    return errorResponse(401, "Not authenticated")
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (userId) headers[USER_ID_HEADER] = userId
+
+  let response: Response
+  try {
+    response = await fetch(`${backendUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+      cache: "no-store",
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return errorResponse(504, `Backend did not respond within ${timeoutMs / 1000}s`)
+    }
+    console.error(`Error proxying ${method} ${path}:`, error)
+    return errorResponse(502, "Backend is not reachable")
+  }
+
+  if (!response.ok) {
+    return errorResponse(response.status, await readErrorDetail(response))
+  }
+
+  try {
+    return NextResponse.json(await response.json(), { status: response.status })
+  } catch {
+    return errorResponse(502, "Backend returned an invalid response")
+  }
+}
+
+/** Parses a JSON request body, returning a 400 response when it is malformed. */
+export async function readJsonBody(request: Request): Promise<{ body: unknown } | { error: NextResponse }> {
+  try {
+    return { body: await request.json() }
+  } catch {
+    return { error: errorResponse(400, "Request body must be valid JSON") }
+  }
+}
@@ -0,0 +1,197 @@
+import { z } from "zod"
+
+// Pydantic serialises Optional fields as `null`; the UI only ever checks for
+// `undefined`, so normalise that here instead of in every component.
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (value === null ? undefined : value), schema.optional())
+}
+
+// The search endpoint returns raw service dicts, where times are sometimes
+// strings like "30 mins" instead of the integer minutes `RecipeResponse` declares.
+const minutes = z.preprocess((value) => {
+  if (value === null || value === undefined || value === "") return undefined
+  if (typeof value === "string") {
+    const parsed = parseInt(value, 10)
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+  return value
+}, z.number().optional())
+
+export const ingredientSchema = z.object({
+  name: z.string(),
+  quantity: optional(z.number()),
+  unit: optional(z.string()),
+  category: optional(z.string()),
+})
+
+export const nutritionSchema = z.object({
+  calories: optional(z.number()),
+  protein: optional(z.number()),
+  carbs: optional(z.number()),
+  fat: optional(z.number()),
+  fiber: optional(z.number()),
+})
+
+// Mirrors `RecipeResponse` in backend/models/recipe_models.py. Algorithm fields
+// are optional because /api/recipes/search does not always populate them.
+export const recipeSchema = z.object({
+  id: z.coerce.string(),
+  name: z.string(),
+  description: optional(z.string()).transform((value) => value ?? ""),
+  ingredients: z.array(ingredientSchema).default([]),
+  instructions: z.array(z.string()).default([]),
+  prep_time: minutes,
+  cook_time: minutes,
+  servings: optional(z.number()),
+  difficulty: optional(z.string()),
+  cuisine: optional(z.string()),
+  course: optional(z.string()),
+  diet: optional(z.string()),
+  image_url: optional(z.string()),
+  nutrition: optional(nutritionSchema),
+  match_score: optional(z.number()),
+  match_percentage: optional(z.number()),
+  matched_ingredients: optional(z.array(z.string())),
+  missing_ingredients: optional(z.array(z.string())),
+  total_matched: optional(z.number()),
+  total_user_ingredients: optional(z.number()),
+  substitution_suggestions: optional(z.record(z.array(z.string()))),
+  algorithm_used: optional(z.string()),
+})
+
+export const recipeListSchema = z.array(recipeSchema)
+
+export const recipeSearchResponseSchema = z.object({
+  recipes: z.array(recipeSchema),
+  total: z.number(),
+})
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+  services: z.record(z.boolean()),
+})
+
+export const ingredientSubstitutionSchema = z.object({
+  original: z.string(),
+  substitute: z.string(),
+  similarity_score: z.number(),
+  reason: z.string(),
+  category_match: z.boolean(),
+})
+
+// Mirrors `IngredientGapResponse`.
+export const ingredientGapResponseSchema = z.object({
+  recipe_id: z.string(),
+  recipe_name: z.string(),
+  available_ingredients: z.array(z.string()),
+  missing_ingredients: z.array(z.string()),
+  substitution_recommendations: z.array(ingredientSubstitutionSchema),
+  feasibility_score: z.number(),
+  estimated_cost_increase: optional(z.number()),
+  algorithm_analysis: z.record(z.unknown()),
+})
+
+// Shape of each entry returned by graph_service.find_ingredient_substitutions.
+export const graphSubstitutionSchema = z.object({
+  ingredient: z.string(),
+  similarity_score: z.number(),
+  relationship_type: z.string(),
+  category: z.string(),
+  path: optional(z.array(z.string())),
+})
+
+export const substitutionsResponseSchema = z.object({
+  ingredient: z.string(),
+  substitutions: z.array(graphSubstitutionSchema),
+})
+
+// Mirrors graph_service.export_graph.
+export const ingredientGraphNodeSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  degree_centrality: z.number(),
+  betweenness_centrality: z.number(),
+  pagerank: z.number(),
+})
+
+export const ingredientGraphEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  relationship_type: z.string(),
+  weight: z.number(),
+})
+
+export const ingredientGraphSchema = z.object({
+  nodes: z.array(ingredientGraphNodeSchema),
+  edges: z.array(ingredientGraphEdgeSchema),
+})
+
+const algorithmExplanationSchema = z.object({
+  description: z.string(),
+  complexity: z.string(),
+  applications: z.array(z.string()),
+})
+
+export const algorithmDemoSchema = z.object({
+  graph_theory_example: z.record(z.unknown()),
+  backtracking_example: z.record(z.unknown()),
+  greedy_algorithm_example: z.record(z.unknown()),
+  performance_metrics: z.record(z.union([z.number(), z.string()])),
+  algorithm_explanations: optional(z.record(algorithmExplanationSchema)),
+  real_time_stats: optional(z.record(z.union([z.number(), z.string()]))),
+})
+
+export const dietaryRestrictions = [
+  "vegetarian",
+  "vegan",
+  "gluten-free",
+  "dairy-free",
+  "keto",
+  "paleo",
+  "low-carb",
+] as const
+
+export const cuisineTypes = [
+  "italian",
+  "chinese",
+  "indian",
+  "mexican",
+  "american",
+  "french",
+  "japanese",
+  "thai",
+  "mediterranean",
+] as const
+
+// Mirrors `RecipeRequest`.
+export const recipeRequestSchema = z.object({
+  available_ingredients: z.array(z.string()),
+  dietary_restrictions: z.array(z.enum(dietaryRestrictions)).optional(),
+  cuisine_preference: z.enum(cuisineTypes).optional(),
+  max_recipes: z.number().int().min(1).max(50).optional(),
+  target_recipe_id: z.string().optional(),
+})
+
+// What the suggest proxy accepts. Fields left out are filled from the user's
+// dietary profile; an empty list or a null cuisine switches it off for one search.
+export const suggestRequestSchema = recipeRequestSchema.extend({
+  cuisine_preference: z.enum(cuisineTypes).nullable().optional(),
+})
+
+export type Ingredient = z.infer<typeof ingredientSchema>
+export type NutritionInfo = z.infer<typeof nutritionSchema>
+export type Recipe = z.infer<typeof recipeSchema>
+export type RecipeSearchResponse = z.infer<typeof recipeSearchResponseSchema>
+export type HealthResponse = z.infer<typeof healthResponseSchema>
+export type IngredientSubstitution = z.infer<typeof ingredientSubstitutionSchema>
+export type IngredientGapResponse = z.infer<typeof ingredientGapResponseSchema>
+export type GraphSubstitution = z.infer<typeof graphSubstitutionSchema>
+export type SubstitutionsResponse = z.infer<typeof substitutionsResponseSchema>
+export type IngredientGraphNode = z.infer<typeof ingredientGraphNodeSchema>
+export type IngredientGraphEdge = z.infer<typeof ingredientGraphEdgeSchema>
+export type IngredientGraph = z.infer<typeof ingredientGraphSchema>
+export type AlgorithmDemo = z.infer<typeof algorithmDemoSchema>
+export type DietaryRestriction = (typeof dietaryRestrictions)[number]
+export type CuisineType = (typeof cuisineTypes)[number]
+export type RecipeRequest = z.infer<typeof recipeRequestSchema>
+export type SuggestRequest = z.infer<typeof suggestRequestSchema>
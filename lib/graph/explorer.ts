@@ -0,0 +1,95 @@
+import type { IngredientGraph, IngredientGraphEdge, IngredientGraphNode } from "@/lib/api/schemas"
+import type { LayoutLink } from "@/lib/graph/layout"
+
+export const graphEdgeTypes = ["substitution", "complementary", "category"] as const
+
+export type GraphEdgeType = (typeof graphEdgeTypes)[number]
+
+export const graphEdgeLabels: Record<GraphEdgeType, string> = {
+  substitution: "Substitutes",
+  complementary: "Goes with",
+  category: "Same category",
+}
+
+export const centralityMetrics = ["degree_centrality", "betweenness_centrality", "pagerank"] as const
+
+export type CentralityMetric = (typeof centralityMetrics)[number]
+
+export const centralityLabels: Record<CentralityMetric, string> = {
+  degree_centrality: "Degree",
+  betweenness_centrality: "Betweenness",
+  pagerank: "PageRank",
+}
+
+const isEdgeType = (type: string, types: readonly GraphEdgeType[]) => types.includes(type as GraphEdgeType)
+
+/** Ingredients whose name contains the query, names starting with it first. */
+export function findGraphNodes(graph: IngredientGraph, query: string, limit = 8): IngredientGraphNode[] {
+  const wanted = query.trim().toLowerCase()
+  if (!wanted) return []
+  return graph.nodes
+    .filter((node) => node.id.toLowerCase().includes(wanted))
+    .sort(
+      (a, b) =>
+        Number(b.id.toLowerCase().startsWith(wanted)) - Number(a.id.toLowerCase().startsWith(wanted)) ||
+        a.id.localeCompare(b.id),
+    )
+    .slice(0, limit)
+}
+
+/** The node's edges of the given types, strongest first. */
+export function neighbourEdges(
+  graph: IngredientGraph,
+  id: string,
+  types: readonly GraphEdgeType[],
+): IngredientGraphEdge[] {
+  return graph.edges
+    .filter((edge) => (edge.source === id || edge.target === id) && isEdgeType(edge.relationship_type, types))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+export const otherEnd = (edge: IngredientGraphEdge, id: string) => (edge.source === id ? edge.target : edge.source)
+
+/** `visible` plus the node and its neighbours along edges of the given types. */
+export function expandNeighbours(
+  visible: ReadonlySet<string>,
+  graph: IngredientGraph,
+  id: string,
+  types: readonly GraphEdgeType[],
+): Set<string> {
+  const expanded = new Set(visible).add(id)
+  for (const edge of neighbourEdges(graph, id, types)) expanded.add(otherEnd(edge, id))
+  return expanded
+}
+
+/** Edges of the given types between visible nodes. */
+export function visibleEdges(
+  graph: IngredientGraph,
+  visible: ReadonlySet<string>,
+  types: readonly GraphEdgeType[],
+): IngredientGraphEdge[] {
+  return graph.edges.filter(
+    (edge) => visible.has(edge.source) && visible.has(edge.target) && isEdgeType(edge.relationship_type, types),
+  )
+}
+
+export function layoutLinks(edges: readonly IngredientGraphEdge[]): LayoutLink[] {
+  return edges.map((edge) => ({ source: edge.source, target: edge.target, strength: edge.weight }))
+}
+
+/** The most central ingredient, a sensible place to start exploring. */
+export function mostCentralNode(graph: IngredientGraph, metric: CentralityMetric): IngredientGraphNode | null {
+  return graph.nodes.reduce<IngredientGraphNode | null>(
+    (best, node) => (!best || node[metric] > best[metric] ? node : best),
+    null,
+  )
+}
+
+const MIN_RADIUS = 6
+const MAX_RADIUS = 22
+
+/** Node radius by centrality, relative to the most central node; area grows with the value. */
+export function nodeRadius(node: IngredientGraphNode, metric: CentralityMetric, maxValue: number): number {
+  const share = maxValue > 0 ? node[metric] / maxValue : 0
+  return MIN_RADIUS + Math.sqrt(Math.max(share, 0)) * (MAX_RADIUS - MIN_RADIUS)
+}
@@ -0,0 +1,171 @@
+// A small force-directed layout: nodes repel each other, links pull their ends
+// together, and a weak gravity keeps everything near the origin. It works on
+// plain objects so it runs anywhere, and the caller decides when to tick, which
+// lets the explorer animate it one step per frame.
+
+export interface LayoutNode {
+  x: number
+  y: number
+  vx: number
+  vy: number
+}
+
+export type Layout = Map<string, LayoutNode>
+
+export interface LayoutLink {
+  source: string
+  target: string
+  /** 0–1; stronger links are pulled shorter. */
+  strength: number
+}
+
+export interface ForceLayoutOptions {
+  /** Rest length of a link of strength 0.5. */
+  linkDistance?: number
+  repulsion?: number
+  gravity?: number
+  /** Share of velocity kept from one tick to the next. */
+  damping?: number
+}
+
+const DEFAULTS: Required<ForceLayoutOptions> = { linkDistance: 90, repulsion: 2400, gravity: 0.02, damping: 0.6 }
+
+// Furthest a node may move in one tick, so close pairs can't fling each other away
+const MAX_STEP = 40
+
+// Stable pseudo-random number in [0, 1) from a string, so layouts don't jump between renders
+function seeded(text: string, salt = 0): number {
+  let hash = 2166136261 ^ salt
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 16777619)
+  }
+  return ((hash >>> 0) % 10000) / 10000
+}
+
+/**
+ * Starting positions for `ids`. Nodes already in `previous` keep their place;
+ * new ones start beside a placed neighbour, or on a circle around the origin.
+ */
+export function seedLayout(ids: readonly string[], links: readonly LayoutLink[], previous?: Layout): Layout {
+  const layout: Layout = new Map()
+  for (const id of ids) {
+    const existing = previous?.get(id)
+    if (existing) layout.set(id, { ...existing })
+  }
+
+  for (const id of ids) {
+    if (layout.has(id)) continue
+    const neighbour = links
+      .filter((link) => link.source === id || link.target === id)
+      .map((link) => layout.get(link.source === id ? link.target : link.source))
+      .find(Boolean)
+    const angle = seeded(id) * Math.PI * 2
+    const distance = neighbour ? 30 + seeded(id, 1) * 30 : 150 + seeded(id, 1) * 100
+    layout.set(id, {
+      x: (neighbour?.x ?? 0) + Math.cos(angle) * distance,
+      y: (neighbour?.y ?? 0) + Math.sin(angle) * distance,
+      vx: 0,
+      vy: 0,
+    })
+  }
+  return layout
+}
+
+/**
+ * Advances the simulation one step and returns the new layout. `alpha`, from
+ * 1 down towards 0, scales the forces; callers lower it each tick so the
+ * layout cools and settles. Repulsion is all-pairs, which is fine for the few
+ * hundred nodes the explorer shows at once.
+ */
+export function tickLayout(
+  layout: Layout,
+  links: readonly LayoutLink[],
+  alpha: number,
+  options: ForceLayoutOptions = {},
+): Layout {
+  const { linkDistance, repulsion, gravity, damping } = { ...DEFAULTS, ...options }
+  const ids = Array.from(layout.keys())
+  const force = new Map(ids.map((id) => [id, { x: 0, y: 0 }]))
+
+  for (let i = 0; i < ids.length; i++) {
+    const a = layout.get(ids[i])!
+    for (let j = i + 1; j < ids.length; j++) {
+      const b = layout.get(ids[j])!
+      let dx = a.x - b.x
+      let dy = a.y - b.y
+      if (dx === 0 && dy === 0) {
+        // Nudge coincident nodes apart in a direction that depends on their ids
+        dx = seeded(ids[i] + ids[j]) - 0.5
+        dy = seeded(ids[j] + ids[i]) - 0.5
+      }
+      const distanceSquared = Math.max(dx * dx + dy * dy, 1)
+      const distance = Math.sqrt(distanceSquared)
+      const push = repulsion / distanceSquared
+      const fx = (dx / distance) * push
+      const fy = (dy / distance) * push
+      force.get(ids[i])!.x += fx
+      force.get(ids[i])!.y += fy
+      force.get(ids[j])!.x -= fx
+      force.get(ids[j])!.y -= fy
+    }
+  }
+
+  for (const link of links) {
+    const a = layout.get(link.source)
+    const b = layout.get(link.target)
+    if (!a || !b || link.source === link.target) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+    const rest = linkDistance * (1.5 - Math.min(Math.max(link.strength, 0), 1))
+    const pull = (distance - rest) * 0.05
+    const fx = (dx / distance) * pull
+    const fy = (dy / distance) * pull
+    force.get(link.source)!.x += fx
+    force.get(link.source)!.y += fy
+    force.get(link.target)!.x -= fx
+    force.get(link.target)!.y -= fy
+  }
+
+  const next: Layout = new Map()
+  for (const id of ids) {
+    const node = layout.get(id)!
+    const total = force.get(id)!
+    const vx = (node.vx + (total.x - node.x * gravity) * alpha) * damping
+    const vy = (node.vy + (total.y - node.y * gravity) * alpha) * damping
+    const speed = Math.sqrt(vx * vx + vy * vy)
+    const scale = speed > MAX_STEP ? MAX_STEP / speed : 1
+    next.set(id, { x: node.x + vx * scale, y: node.y + vy * scale, vx: vx * scale, vy: vy * scale })
+  }
+  return next
+}
+
+export const ALPHA_DECAY = 0.97
+export const ALPHA_MIN = 0.01
+
+/** Runs the simulation until it has cooled, for when there's no need to animate. */
+export function settleLayout(layout: Layout, links: readonly LayoutLink[], options?: ForceLayoutOptions): Layout {
+  let settled = layout
+  for (let alpha = 1; alpha > ALPHA_MIN; alpha *= ALPHA_DECAY) {
+    settled = tickLayout(settled, links, alpha, options)
+  }
+  return settled
+}
+
+export interface LayoutBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** The box around every node, with `padding` on each side, for an SVG viewBox. */
+export function layoutBounds(layout: Layout, padding = 40): LayoutBounds {
+  const nodes = Array.from(layout.values())
+  if (!nodes.length) return { x: -padding, y: -padding, width: padding * 2, height: padding * 2 }
+  const xs = nodes.map((node) => node.x)
+  const ys = nodes.map((node) => node.y)
+  const minX = Math.min(...xs) - padding
+  const minY = Math.min(...ys) - padding
+  return { x: minX, y: minY, width: Math.max(...xs) + padding - minX, height: Math.max(...ys) + padding - minY }
+}
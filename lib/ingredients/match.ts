@@ -0,0 +1,28 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Matches a name as a whole word of lower-cased text, with an optional plural
+ * ending, so "rai" (mustard seeds) doesn't match "raisins" and "til" doesn't
+ * match "lentil".
+ */
+export function wordPattern(name: string, flags?: string): RegExp {
+  return new RegExp(`(?:^|[^a-z])${escapeRegExp(name.toLowerCase())}(?:e?s)?(?=[^a-z]|$)`, flags)
+}
+
+/**
+ * A lookup from an ingredient name to the table entry one of whose names it
+ * contains. Longest names are tried first, so "coconut milk" wins over
+ * "coconut" and "milk".
+ */
+export function createNameMatcher<T>(entries: readonly T[], namesOf: (entry: T) => string[]): (ingredient: string) => T | null {
+  const matchers = entries
+    .flatMap((entry) => namesOf(entry).map((name) => ({ name, entry })))
+    .sort((a, b) => b.name.length - a.name.length)
+    .map(({ name, entry }) => ({ entry, pattern: wordPattern(name) }))
+
+  return (ingredient) => {
+    const name = ingredient.trim().toLowerCase()
+    if (!name) return null
+    return matchers.find(({ pattern }) => pattern.test(name))?.entry ?? null
+  }
+}
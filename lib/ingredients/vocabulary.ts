@@ -0,0 +1,120 @@
+import { z } from "zod"
+import bundledVocabulary from "@/lib/ingredients/vocabulary.json"
+import { loadVersionedTable } from "@/lib/versioned-table"
+
+// Canonical names are spelled the way the recipe collections list them, so a
+// normalised ingredient matches recipe ingredients as often as possible.
+const vocabularyEntrySchema = z.object({
+  name: z.string(),
+  /** Irregular plurals, English, American and regional names, and Hindi names. */
+  synonyms: z.array(z.string()),
+})
+
+const vocabularySchema = z.object({
+  source: z.string(),
+  ingredients: z.array(vocabularyEntrySchema),
+})
+
+export type VocabularyEntry = z.infer<typeof vocabularyEntrySchema>
+
+const vocabulary = loadVersionedTable(vocabularySchema, bundledVocabulary)
+
+export const INGREDIENT_VOCABULARY_VERSION = vocabulary.version
+
+export const ingredientVocabulary: readonly VocabularyEntry[] = vocabulary.ingredients
+
+const singular = (word: string) => word.replace(/oes$/, "o").replace(/ies$/, "y").replace(/([^s])s$/, "$1")
+
+// Lower case, punctuation as spaces and plural endings dropped, so "Tomatoes",
+// "tomato" and "tomato," share a key
+const lookupKey = (name: string) =>
+  name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(singular)
+    .join(" ")
+
+const entriesByKey = new Map<string, VocabularyEntry>()
+for (const entry of ingredientVocabulary) {
+  for (const name of [entry.name, ...entry.synonyms]) {
+    const key = lookupKey(name)
+    if (!entriesByKey.has(key)) entriesByKey.set(key, entry)
+  }
+}
+
+/** The vocabulary entry for a name or any of its synonyms, or null when the name isn't known. */
+export function findVocabularyEntry(name: string): VocabularyEntry | null {
+  return entriesByKey.get(lookupKey(name)) ?? null
+}
+
+/**
+ * A key every name of the same ingredient shares, for comparing names: the
+ * canonical name's when the vocabulary knows it, so "aloo" and "potatoes"
+ * compare equal, and otherwise the name's own, lower-cased and singular.
+ */
+export function ingredientKey(name: string): string {
+  const entry = findVocabularyEntry(name)
+  return lookupKey(entry ? entry.name : name)
+}
+
+/**
+ * The canonical name for an ingredient the user typed, so "Aloo", "potatoes"
+ * and "Potato" all become "potato". Names the vocabulary doesn't know are kept,
+ * lower-cased and with extra whitespace removed.
+ */
+export function normaliseIngredient(token: string): string {
+  return findVocabularyEntry(token)?.name ?? token.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+/** Each token normalised, with blanks and duplicates dropped, in the order first seen. */
+export function normaliseIngredients(tokens: readonly string[]): string[] {
+  return Array.from(new Set(tokens.map(normaliseIngredient).filter(Boolean)))
+}
+
+export interface IngredientSuggestion {
+  /** The canonical name. */
+  name: string
+  /** The synonym the query matched, when it wasn't the canonical name. */
+  matched?: string
+}
+
+// Lower is better: the whole name, the start of the name, the start of a word, anywhere
+function matchRank(candidate: string, query: string): number | null {
+  const name = candidate.toLowerCase()
+  if (lookupKey(name) === lookupKey(query)) return 0
+  if (name.startsWith(query)) return 1
+  if (name.split(/[^a-z0-9]+/).some((word) => word.startsWith(query))) return 2
+  if (name.includes(query)) return 3
+  return null
+}
+
+/**
+ * Vocabulary entries for a partly typed name, matched against names and
+ * synonyms. Closer matches come first, then shorter names, so "al" suggests
+ * potato (from "aloo") before "black salt".
+ */
+export function suggestIngredients(query: string, limit = 8): IngredientSuggestion[] {
+  const wanted = query.trim().toLowerCase()
+  if (!wanted) return []
+
+  const matches: { suggestion: IngredientSuggestion; rank: number; length: number }[] = []
+  for (const entry of ingredientVocabulary) {
+    let best: { candidate: string; rank: number } | null = null
+    for (const candidate of [entry.name, ...entry.synonyms]) {
+      const rank = matchRank(candidate, wanted)
+      if (rank !== null && (!best || rank < best.rank)) best = { candidate, rank }
+    }
+    if (!best) continue
+    matches.push({
+      suggestion: best.candidate === entry.name ? { name: entry.name } : { name: entry.name, matched: best.candidate },
+      rank: best.rank,
+      length: best.candidate.length,
+    })
+  }
+
+  return matches
+    .sort((a, b) => a.rank - b.rank || a.length - b.length || a.suggestion.name.localeCompare(b.suggestion.name))
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion)
+}
@@ -0,0 +1,68 @@
+import type { AlgorithmDemo } from "@/lib/api/schemas"
+
+/** Cumulative counters the backend keeps since it started. */
+export interface AlgorithmStats {
+  graph_traversals: number
+  greedy_selections: number
+  backtracking_calls: number
+  /** Seconds. */
+  total_execution_time: number
+}
+
+export const algorithmCounters = ["graph_traversals", "greedy_selections", "backtracking_calls"] as const
+
+export type AlgorithmCounter = (typeof algorithmCounters)[number]
+
+const numeric = (value: number | string | undefined) => {
+  const parsed = typeof value === "number" ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/** The counters from the demo endpoint's performance metrics; missing ones read as 0. */
+export function algorithmStatsFromDemo(demo: AlgorithmDemo): AlgorithmStats {
+  const metrics = demo.performance_metrics
+  return {
+    graph_traversals: numeric(metrics.graph_traversals),
+    greedy_selections: numeric(metrics.greedy_selections),
+    backtracking_calls: numeric(metrics.backtracking_calls),
+    total_execution_time: numeric(metrics.total_execution_time),
+  }
+}
+
+export interface MetricsSample {
+  /** When the sample was taken, in epoch milliseconds. */
+  at: number
+  stats: AlgorithmStats
+}
+
+/** What happened between two samples, for charting activity over time. */
+export interface MetricsInterval extends Record<AlgorithmCounter, number> {
+  at: number
+  /** Milliseconds spent in the algorithms during the interval. */
+  execution_ms: number
+}
+
+/**
+ * Differences between consecutive samples. The counters only grow, so a drop
+ * means the backend restarted; that interval counts from zero.
+ */
+export function metricsIntervals(samples: readonly MetricsSample[]): MetricsInterval[] {
+  return samples.slice(1).map((sample, index) => {
+    const previous = samples[index].stats
+    const delta = (key: keyof AlgorithmStats) =>
+      sample.stats[key] >= previous[key] ? sample.stats[key] - previous[key] : sample.stats[key]
+    return {
+      at: sample.at,
+      graph_traversals: delta("graph_traversals"),
+      greedy_selections: delta("greedy_selections"),
+      backtracking_calls: delta("backtracking_calls"),
+      execution_ms: delta("total_execution_time") * 1000,
+    }
+  })
+}
+
+/** Whether anything ran between the two latest samples. */
+export function hasRecentActivity(samples: readonly MetricsSample[]): boolean {
+  const latest = metricsIntervals(samples.slice(-2))[0]
+  return !!latest && (latest.execution_ms > 0 || algorithmCounters.some((counter) => latest[counter] > 0))
+}
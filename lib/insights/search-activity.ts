@@ -0,0 +1,25 @@
+// Lets the insights page, usually open in another tab, know when the dashboard
+// is searching so it can poll the backend more often. BroadcastChannel only
+// reaches tabs of the same origin in the same browser, which is all we need.
+const CHANNEL_NAME = "pantryiq_search_activity"
+
+interface SearchActivityMessage {
+  searching: boolean
+}
+
+const openChannel = () => (typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME))
+
+export function announceSearchActivity(searching: boolean) {
+  const channel = openChannel()
+  if (!channel) return
+  channel.postMessage({ searching } satisfies SearchActivityMessage)
+  channel.close()
+}
+
+/** Calls `onChange` whenever another tab starts or stops searching. Returns an unsubscribe function. */
+export function subscribeToSearchActivity(onChange: (searching: boolean) => void): () => void {
+  const channel = openChannel()
+  if (!channel) return () => {}
+  channel.onmessage = (event: MessageEvent<SearchActivityMessage>) => onChange(event.data?.searching === true)
+  return () => channel.close()
+}
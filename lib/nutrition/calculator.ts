@@ -0,0 +1,134 @@
+import type { Ingredient, NutritionInfo, Recipe } from "@/lib/api/schemas"
+import { findNutrientEntry, type NutrientEntry } from "@/lib/nutrition/database"
+import { hasNutrition, scaleNutrition } from "@/lib/recipes/nutrition"
+import { getBaseServings } from "@/lib/recipes/scale"
+import { convertQuantity } from "@/lib/units/convert"
+import { parseUnit } from "@/lib/units/units"
+
+export type IngredientNutritionStatus = "resolved" | "estimated" | "unresolved"
+
+export type NutritionConfidence = "high" | "medium" | "low"
+
+export interface IngredientNutrition {
+  ingredient: Ingredient
+  status: IngredientNutritionStatus
+  /** Name of the nutrient table entry the ingredient matched. */
+  match: string | null
+  grams: number | null
+  /** Why the weight is a guess or couldn't be worked out. */
+  note?: string
+}
+
+export interface NutritionEstimate {
+  total: NutritionInfo
+  perServing: NutritionInfo
+  ingredients: IngredientNutrition[]
+  unresolved: string[]
+  /** Share of ingredients accounted for, 0–1. Guessed weights count half. */
+  coverage: number
+  confidence: NutritionConfidence
+}
+
+// Rough weights for judgement amounts, per unit.
+const INFORMAL_GRAMS: Record<string, number> = { pinch: 0.4, dash: 0.6, handful: 30, "to taste": 0.5 }
+
+const ASSUMED_DENSITY = 1
+
+type Weight = Pick<IngredientNutrition, "status" | "grams" | "note">
+
+const unresolved = (note: string): Weight => ({ status: "unresolved", grams: null, note })
+
+/** Works out an ingredient's weight in grams using the unit-conversion rules. */
+function ingredientWeight(ingredient: Ingredient, entry: NutrientEntry): Weight {
+  const unit = parseUnit(ingredient.unit)
+  const quantity = ingredient.quantity && ingredient.quantity > 0 ? ingredient.quantity : null
+
+  if (unit?.dimension === "informal") {
+    return { status: "estimated", grams: (quantity ?? 1) * INFORMAL_GRAMS[unit.id], note: `Assumed a ${unit.singular}` }
+  }
+  if (quantity === null) {
+    // Water and salt don't change the totals however much is used
+    return entry.per_100g.calories === 0 ? { status: "resolved", grams: 0 } : unresolved("No amount given")
+  }
+  if (!unit) {
+    if (ingredient.unit?.trim()) return unresolved(`Unknown unit "${ingredient.unit.trim()}"`)
+    const piece = entry.portions?.piece
+    return piece ? { status: "resolved", grams: quantity * piece } : unresolved(`No weight known for one ${entry.name}`)
+  }
+  if (unit.dimension === "count") {
+    const portion = entry.portions?.[unit.id]
+    return portion
+      ? { status: "resolved", grams: quantity * portion }
+      : unresolved(`No weight known for a ${unit.singular} of ${entry.name}`)
+  }
+
+  // The entry's own density is more specific than lib/units/convert.ts, which
+  // would weigh milk powder as milk
+  if (unit.dimension === "volume" && entry.density) {
+    return { status: "resolved", grams: quantity * unit.factor * entry.density }
+  }
+  const grams = convertQuantity(quantity, unit, "g", ingredient.name)
+  if (grams !== null) return { status: "resolved", grams }
+  return { status: "estimated", grams: quantity * unit.factor * ASSUMED_DENSITY, note: "Weight assumed from volume" }
+}
+
+export function confidenceFromCoverage(coverage: number): NutritionConfidence {
+  if (coverage >= 0.85) return "high"
+  if (coverage >= 0.6) return "medium"
+  return "low"
+}
+
+/**
+ * Estimates a recipe's nutrition from its ingredient list and the bundled
+ * nutrient table. Ingredients the table doesn't know, or whose amount can't be
+ * turned into grams, are listed as unresolved and left out of the totals, so
+ * the estimate is a lower bound; `confidence` says how much of the recipe it
+ * covers. Returns null for recipes without ingredients.
+ */
+export function estimateNutrition(recipe: Recipe): NutritionEstimate | null {
+  const ingredients = recipe.ingredients.filter((ingredient) => ingredient.name.trim())
+  if (!ingredients.length) return null
+
+  const total: Required<NutritionInfo> = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
+  const breakdown: IngredientNutrition[] = ingredients.map((ingredient) => {
+    const entry = findNutrientEntry(ingredient.name)
+    if (!entry) return { ingredient, match: null, ...unresolved("Not in the nutrient table") }
+
+    const weight = ingredientWeight(ingredient, entry)
+    if (weight.grams !== null) {
+      for (const key of Object.keys(total) as (keyof NutritionInfo)[]) {
+        total[key] += (entry.per_100g[key] * weight.grams) / 100
+      }
+    }
+    return { ingredient, match: entry.name, ...weight }
+  })
+
+  const score = breakdown.reduce(
+    (sum, item) => sum + (item.status === "resolved" ? 1 : item.status === "estimated" ? 0.5 : 0),
+    0,
+  )
+  const coverage = score / breakdown.length
+
+  return {
+    total,
+    perServing: scaleNutrition(total, 1 / getBaseServings(recipe)),
+    ingredients: breakdown,
+    unresolved: breakdown.filter((item) => item.status === "unresolved").map((item) => item.ingredient.name),
+    coverage,
+    confidence: confidenceFromCoverage(coverage),
+  }
+}
+
+export interface RecipeNutrition {
+  /** Per serving. */
+  nutrition: NutritionInfo
+  /** Set when the values are a local estimate rather than from the recipe itself. */
+  estimate: NutritionEstimate | null
+}
+
+/** The recipe's own nutrition when it has any, otherwise a local estimate. */
+export function getRecipeNutrition(recipe: Recipe): RecipeNutrition | null {
+  if (hasNutrition(recipe.nutrition)) return { nutrition: recipe.nutrition, estimate: null }
+  const estimate = estimateNutrition(recipe)
+  return estimate && hasNutrition(estimate.perServing) ? { nutrition: estimate.perServing, estimate } : null
+}
@@ -0,0 +1,43 @@
+import { z } from "zod"
+import { createNameMatcher } from "@/lib/ingredients/match"
+import bundledNutrients from "@/lib/nutrition/nutrients.json"
+import { loadVersionedTable } from "@/lib/versioned-table"
+
+// Values are per 100 g of the raw or dry ingredient.
+const nutrientEntrySchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()),
+  per_100g: z.object({
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    fiber: z.number(),
+  }),
+  /** Grams per millilitre, for ingredients lib/units/convert.ts has no density for. */
+  density: z.number().positive().optional(),
+  /** Grams in one of a count unit ("piece", "clove", "bunch"), keyed by unit id. */
+  portions: z.record(z.number().positive()).optional(),
+})
+
+const nutrientDatabaseSchema = z.object({
+  source: z.string(),
+  nutrients: z.array(nutrientEntrySchema),
+})
+
+export type NutrientEntry = z.infer<typeof nutrientEntrySchema>
+
+const database = loadVersionedTable(nutrientDatabaseSchema, bundledNutrients)
+
+export const NUTRIENT_DATABASE_VERSION = database.version
+
+export const NUTRIENT_DATABASE_SOURCE = database.source
+
+export const nutrientEntries: readonly NutrientEntry[] = database.nutrients
+
+const matchNutrientEntry = createNameMatcher(nutrientEntries, (entry) => [entry.name, ...entry.aliases])
+
+/** The nutrient entry for an ingredient name, or null when the table doesn't know it. */
+export function findNutrientEntry(ingredient: string): NutrientEntry | null {
+  return matchNutrientEntry(ingredient)
+}
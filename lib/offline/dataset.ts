@@ -0,0 +1,22 @@
+import { z } from "zod"
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+import bundledDataset from "@/lib/offline/recipes.json"
+import { loadVersionedTable } from "@/lib/versioned-table"
+
+const dataset = loadVersionedTable(z.object({ recipes: z.array(recipeSchema) }), bundledDataset)
+
+export const OFFLINE_DATASET_VERSION = dataset.version
+
+export const offlineRecipes: readonly Recipe[] = dataset.recipes
+
+export function isOfflineRecipeId(id: string): boolean {
+  return id.startsWith("offline_")
+}
+
+export function getOfflineRecipe(id: string): Recipe | null {
+  return offlineRecipes.find((recipe) => recipe.id === id) ?? null
+}
+
+export function getFeaturedOfflineRecipes(limit: number): Recipe[] {
+  return offlineRecipes.slice(0, limit).map((recipe) => ({ ...recipe, algorithm_used: "offline_featured" }))
+}
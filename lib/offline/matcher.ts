@@ -0,0 +1,158 @@
+import type { Recipe } from "@/lib/api/schemas"
+
+// TypeScript port of the ingredient matching in
+// backend/services/indian_recipe_service.py, so offline results are ranked the
+// same way the backend ranks its dataset.
+
+// The backend's ingredient search boosts more regional cuisines than its name
+// search does; each list is copied from its search
+const INDIAN_CUISINE_WORDS = ["indian", "south", "north", "andhra", "bengali", "punjabi", "gujarati"]
+const NAME_SEARCH_INDIAN_CUISINE_WORDS = ["indian", "south", "north"]
+
+/** Equivalent of Python's `difflib.SequenceMatcher(None, a, b).ratio()`. */
+export function sequenceRatio(a: string, b: string): number {
+  if (!a.length && !b.length) return 1
+
+  const matchingCharacters = (aStart: number, aEnd: number, bStart: number, bEnd: number): number => {
+    let bestLength = 0
+    let bestA = aStart
+    let bestB = bStart
+    for (let i = aStart; i < aEnd; i++) {
+      for (let j = bStart; j < bEnd; j++) {
+        let length = 0
+        while (i + length < aEnd && j + length < bEnd && a[i + length] === b[j + length]) length++
+        if (length > bestLength) {
+          bestLength = length
+          bestA = i
+          bestB = j
+        }
+      }
+    }
+    if (bestLength === 0) return 0
+    return (
+      bestLength +
+      matchingCharacters(aStart, bestA, bStart, bestB) +
+      matchingCharacters(bestA + bestLength, aEnd, bestB + bestLength, bEnd)
+    )
+  }
+
+  return (2 * matchingCharacters(0, a.length, 0, b.length)) / (a.length + b.length)
+}
+
+function fuzzyMatch(a: string, b: string, threshold = 0.8): boolean {
+  if (a.length < 3 || b.length < 3) return false
+  return sequenceRatio(a, b) >= threshold
+}
+
+// Each term is kept whole and, for compound names like "basmati rice", its
+// first word is added too so "basmati" alone still matches.
+function expandTerms(names: string[]): string[] {
+  const terms: string[] = []
+  for (const name of names) {
+    const term = name.trim().toLowerCase()
+    if (!term) continue
+    terms.push(term)
+    const words = term.split(/\s+/)
+    if (words.length > 1 && !terms.includes(words[0])) terms.push(words[0])
+  }
+  return terms
+}
+
+function isIndianCuisine(cuisine: string | undefined, words: readonly string[] = INDIAN_CUISINE_WORDS): boolean {
+  const lower = (cuisine ?? "").toLowerCase()
+  return words.some((word) => lower.includes(word))
+}
+
+interface ScoredRecipe {
+  recipe: Recipe
+  score: number
+}
+
+/**
+ * Ranks recipes by how many of the user's ingredients they use. Recipes
+ * matching under 40% of the ingredients are dropped, unless only one
+ * ingredient was given, in which case any match counts.
+ */
+export function matchRecipesByIngredients(recipes: readonly Recipe[], ingredients: string[], limit: number): Recipe[] {
+  const userTerms = expandTerms(ingredients)
+  if (!userTerms.length) return []
+
+  const totalUserIngredients = new Set(userTerms.filter((term) => term.length > 2)).size
+  const scored: ScoredRecipe[] = []
+
+  for (const recipe of recipes) {
+    const recipeTerms = expandTerms(recipe.ingredients.map((ingredient) => ingredient.name))
+    if (!recipeTerms.length) continue
+
+    const matched: string[] = []
+    for (const userTerm of userTerms) {
+      const hit = recipeTerms.some(
+        (recipeTerm) =>
+          userTerm === recipeTerm ||
+          recipeTerm.includes(userTerm) ||
+          userTerm.includes(recipeTerm) ||
+          fuzzyMatch(userTerm, recipeTerm),
+      )
+      if (hit && !matched.includes(userTerm)) matched.push(userTerm)
+    }
+
+    const matchPercentage = totalUserIngredients > 0 ? (matched.length / totalUserIngredients) * 100 : 0
+    if (totalUserIngredients === 1 ? matched.length < 1 : matchPercentage < 40) continue
+
+    const missing = recipeTerms
+      .slice(0, 8)
+      .filter(
+        (recipeTerm) =>
+          recipeTerm.length > 2 &&
+          !userTerms.some((userTerm) => recipeTerm.includes(userTerm) || userTerm.includes(recipeTerm)),
+      )
+
+    const baseScore = matchPercentage + matched.length * 15
+    const missingPenalty = missing.length * 0.8
+    let score = isIndianCuisine(recipe.cuisine) ? baseScore * 10 - missingPenalty + 100 : baseScore - missingPenalty
+    if (matchPercentage >= 80) score += 30
+    else if (matchPercentage >= 60) score += 15
+
+    scored.push({
+      score,
+      recipe: {
+        ...recipe,
+        match_score: matchPercentage / 100,
+        match_percentage: Math.round(matchPercentage * 10) / 10,
+        matched_ingredients: matched.slice(0, 10),
+        missing_ingredients: missing.slice(0, 5),
+        total_matched: matched.length,
+        total_user_ingredients: totalUserIngredients,
+        algorithm_used: "offline_greedy_match",
+      },
+    })
+  }
+
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (b.recipe.match_percentage ?? 0) - (a.recipe.match_percentage ?? 0) ||
+      (a.recipe.missing_ingredients?.length ?? 0) - (b.recipe.missing_ingredients?.length ?? 0),
+  )
+  return scored.slice(0, limit).map(({ recipe }) => recipe)
+}
+
+/** Port of the backend's name search: prefix beats substring beats word match. */
+export function searchRecipesByName(recipes: readonly Recipe[], query: string, limit: number): Recipe[] {
+  const normalisedQuery = query.trim().toLowerCase()
+  if (!normalisedQuery) return []
+  const queryWords = normalisedQuery.split(/\s+/).filter((word) => word.length > 2)
+
+  const scored: ScoredRecipe[] = []
+  for (const recipe of recipes) {
+    const name = recipe.name.toLowerCase()
+    if (!name.includes(normalisedQuery) && !queryWords.some((word) => name.includes(word))) continue
+
+    let score = name.startsWith(normalisedQuery) ? 100 : name.includes(normalisedQuery) ? 80 : 60
+    if (isIndianCuisine(recipe.cuisine, NAME_SEARCH_INDIAN_CUISINE_WORDS)) score *= 5
+    scored.push({ score, recipe: { ...recipe, algorithm_used: "offline_name_search" } })
+  }
+
+  scored.sort((a, b) => b.score - a.score)
+  return scored.slice(0, limit).map(({ recipe }) => recipe)
+}
@@ -0,0 +1,66 @@
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import type { Recipe } from "@/lib/api/schemas"
+import type { PantryItem } from "@/lib/pantry/schemas"
+
+export type ExpiryStatus = "expired" | "expiring" | "soon" | "fresh"
+
+// "expiring" items need using in the next few days; "soon" ones this week.
+const EXPIRING_WITHIN_DAYS = 2
+const SOON_WITHIN_DAYS = 7
+
+export function daysUntilExpiry(expiresOn: string, today: Date = new Date()): number {
+  return differenceInCalendarDays(parseISO(expiresOn), today)
+}
+
+export function getExpiryStatus(expiresOn: string | null, today: Date = new Date()): ExpiryStatus | null {
+  if (!expiresOn) return null
+  const days = daysUntilExpiry(expiresOn, today)
+  if (days < 0) return "expired"
+  if (days <= EXPIRING_WITHIN_DAYS) return "expiring"
+  if (days <= SOON_WITHIN_DAYS) return "soon"
+  return "fresh"
+}
+
+export function describeExpiry(expiresOn: string, today: Date = new Date()): string {
+  const days = daysUntilExpiry(expiresOn, today)
+  if (days < -1) return `Expired ${-days} days ago`
+  if (days === -1) return "Expired yesterday"
+  if (days === 0) return "Expires today"
+  if (days === 1) return "Expires tomorrow"
+  return `Expires in ${days} days`
+}
+
+/** Items that are still usable but expire within the next week, soonest first. */
+export function getItemsExpiringThisWeek(items: PantryItem[], today: Date = new Date()): PantryItem[] {
+  return items
+    .filter((item) => {
+      const status = getExpiryStatus(item.expires_on, today)
+      return status === "expiring" || status === "soon"
+    })
+    .sort((a, b) => a.expires_on!.localeCompare(b.expires_on!))
+}
+
+function usesIngredient(recipe: Recipe, ingredient: string): boolean {
+  return recipe.ingredients.some((recipeIngredient) => {
+    const name = recipeIngredient.name.toLowerCase()
+    return name.includes(ingredient) || ingredient.includes(name)
+  })
+}
+
+/**
+ * Stable re-rank that moves recipes using more of the expiring ingredients to
+ * the front, keeping the backend's order among recipes that use equally many.
+ */
+export function prioritiseExpiringIngredients(recipes: Recipe[], expiringIngredients: string[]): Recipe[] {
+  if (!expiringIngredients.length) return recipes
+  const names = expiringIngredients.map((name) => name.toLowerCase())
+
+  return recipes
+    .map((recipe, index) => ({
+      recipe,
+      index,
+      uses: names.filter((name) => usesIngredient(recipe, name)).length,
+    }))
+    .sort((a, b) => b.uses - a.uses || a.index - b.index)
+    .map(({ recipe }) => recipe)
+}
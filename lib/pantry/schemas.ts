@@ -0,0 +1,49 @@
+import { isValid, parseISO } from "date-fns"
+import { z } from "zod"
+
+export const pantryCategories = [
+  "produce",
+  "dairy",
+  "protein",
+  "grains",
+  "spices",
+  "oils",
+  "condiments",
+  "baking",
+  "other",
+] as const
+
+export type PantryCategory = (typeof pantryCategories)[number]
+
+/** A row of the `pantry_items` table (scripts/02-create-pantry-items-table.sql). */
+export interface PantryItem {
+  id: string
+  user_id: string
+  name: string
+  quantity: number | null
+  unit: string | null
+  category: PantryCategory | null
+  added_at: string
+  /** ISO date (yyyy-MM-dd), see scripts/03-add-pantry-expiry.sql */
+  expires_on: string | null
+}
+
+// Form values arrive as strings; empty optional fields are stored as NULL.
+const emptyToNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value)
+
+export const pantryItemInputSchema = z.object({
+  name: z.string().trim().toLowerCase().min(1, "Name is required").max(100),
+  quantity: z.preprocess(emptyToNull, z.coerce.number().positive("Quantity must be positive").nullable()),
+  unit: z.preprocess(emptyToNull, z.string().trim().max(30).nullable()),
+  category: z.preprocess(emptyToNull, z.enum(pantryCategories).nullable()),
+  expires_on: z.preprocess(
+    emptyToNull,
+    z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Expiry date must be a valid date")
+      .refine((value) => isValid(parseISO(value)), "Expiry date must be a valid date")
+      .nullable(),
+  ),
+})
+
+export type PantryItemInput = z.input<typeof pantryItemInputSchema>
@@ -0,0 +1,156 @@
+import { createNameMatcher } from "@/lib/ingredients/match"
+import { ingredientKey } from "@/lib/ingredients/vocabulary"
+import type { PantryCategory, PantryItem } from "@/lib/pantry/schemas"
+import type { MealPlanEntry } from "@/lib/planner/schemas"
+import { scaleRecipe } from "@/lib/recipes/scale"
+import { mergeShoppingListEntries, type MergedShoppingListEntry } from "@/lib/shopping-list/merge"
+import type { ShoppingListEntry } from "@/lib/shopping-list/schemas"
+import { convertQuantity } from "@/lib/units/convert"
+
+/** Store sections reuse the pantry categories, in the order you'd walk the aisles. */
+export const storeSections: readonly PantryCategory[] = [
+  "produce",
+  "dairy",
+  "protein",
+  "grains",
+  "baking",
+  "spices",
+  "oils",
+  "condiments",
+  "other",
+]
+
+// Words that place an ingredient in a section, matched as whole words so
+// "mixed veggies" isn't taken for egg. Checked longest first so "coconut milk"
+// lands in condiments rather than dairy via "milk".
+const SECTION_KEYWORDS: Record<Exclude<PantryCategory, "other">, string[]> = {
+  produce: [
+    "onion", "tomato", "potato", "garlic", "ginger", "chilli", "chili", "capsicum", "pepper", "carrot", "peas",
+    "spinach", "palak", "methi leaves", "coriander leaves", "cilantro", "mint", "curry leaves", "lemon", "lime",
+    "cauliflower", "cabbage", "brinjal", "eggplant", "okra", "bhindi", "beans", "cucumber", "pumpkin", "gourd",
+    "mushroom", "corn", "banana", "apple", "mango", "coconut", "spring onion", "lettuce", "beetroot", "radish",
+  ],
+  dairy: ["milk", "curd", "yogurt", "dahi", "paneer", "cheese", "cream", "butter", "ghee", "buttermilk", "khoya"],
+  protein: ["chicken", "mutton", "lamb", "fish", "prawn", "shrimp", "egg", "tofu", "soya chunks", "meat"],
+  grains: [
+    "rice", "atta", "flour", "maida", "besan", "sooji", "semolina", "rava", "poha", "oats", "dal", "lentil",
+    "chickpea", "chana", "rajma", "moong", "urad", "toor", "masoor", "bread", "pasta", "noodles", "vermicelli",
+  ],
+  baking: ["sugar", "baking powder", "baking soda", "yeast", "cocoa", "vanilla", "jaggery", "cornflour", "cornstarch"],
+  spices: [
+    "salt", "turmeric", "haldi", "cumin", "jeera", "garam masala", "masala", "chilli powder", "coriander powder",
+    "mustard seeds", "fenugreek", "hing", "asafoetida", "cardamom", "clove", "cinnamon", "bay leaf", "peppercorn",
+    "fennel", "saunf", "ajwain", "kasuri methi", "nutmeg", "saffron", "paprika", "oregano", "black pepper",
+  ],
+  oils: ["oil", "coconut oil"],
+  condiments: [
+    "sauce", "ketchup", "vinegar", "tamarind", "pickle", "chutney", "honey", "coconut milk", "paste", "mayonnaise",
+  ],
+}
+
+const findSection = createNameMatcher(
+  Object.entries(SECTION_KEYWORDS) as [PantryCategory, string[]][],
+  ([, keywords]) => keywords,
+)
+
+/** The store section an ingredient is shelved in, or "other" when it isn't recognised. */
+export function getStoreSection(name: string): PantryCategory {
+  return findSection(name)?.[0] ?? "other"
+}
+
+export interface GroceryItem extends MergedShoppingListEntry {
+  section: PantryCategory
+  /** What the pantry already has, when it only covers part of the amount or its units don't add up. */
+  in_pantry: Pick<PantryItem, "quantity" | "unit"> | null
+}
+
+export interface GroceryList {
+  sections: { section: PantryCategory; items: GroceryItem[] }[]
+  /** Ingredients the pantry has enough of, so they are left off the list. */
+  covered: MergedShoppingListEntry[]
+}
+
+/**
+ * What is still needed of an ingredient after taking the pantry into account,
+ * or null when the pantry covers it. Pantry rows without a quantity, and
+ * ingredients without one ("salt to taste"), count as covered. When the units
+ * can't be compared the full amount is kept.
+ */
+function subtractPantry(entry: MergedShoppingListEntry, stock: PantryItem[]): MergedShoppingListEntry | null {
+  if (!stock.length) return entry
+  if (entry.quantity === null || stock.some((item) => item.quantity === null)) return null
+
+  let remaining = entry.quantity
+  for (const item of stock) {
+    const have =
+      entry.unit && item.unit
+        ? convertQuantity(item.quantity!, item.unit, entry.unit, entry.name)
+        : !entry.unit && !item.unit
+          ? item.quantity
+          : null
+    if (have !== null) remaining -= have
+  }
+  // Leftovers below a hundredth are rounding noise from unit conversion
+  if (remaining <= entry.quantity * 0.01) return null
+  return { ...entry, quantity: remaining }
+}
+
+/**
+ * Builds one grocery list for a set of planned meals: every ingredient scaled
+ * to the planned servings, merged across recipes, with pantry stock taken off
+ * and the rest grouped by store section.
+ */
+export function buildGroceryList(entries: MealPlanEntry[], pantry: PantryItem[]): GroceryList {
+  // Spell each ingredient the way it first appears so "tomato" in one recipe
+  // and "tomatoes" or "tamatar" in another merge into one row
+  const spellings = new Map<string, string>()
+  const spell = (name: string) => {
+    const key = ingredientKey(name)
+    if (!spellings.has(key)) spellings.set(key, name.trim().toLowerCase())
+    return spellings.get(key)!
+  }
+
+  const planned: ShoppingListEntry[] = entries.flatMap((entry) =>
+    scaleRecipe(entry.recipe, entry.servings).ingredients
+      .filter((ingredient) => ingredient.name.trim())
+      .map((ingredient) => ({
+        name: spell(ingredient.name),
+        quantity: ingredient.quantity && ingredient.quantity > 0 ? ingredient.quantity : null,
+        unit: ingredient.quantity ? (ingredient.unit ?? null) : null,
+        recipe_name: entry.recipe.name,
+      })),
+  )
+
+  const sections = new Map<PantryCategory, GroceryItem[]>()
+  const covered: MergedShoppingListEntry[] = []
+
+  for (const entry of mergeShoppingListEntries(planned)) {
+    const stock = pantry.filter((item) => ingredientKey(item.name) === ingredientKey(entry.name))
+    const needed = subtractPantry(entry, stock)
+    if (!needed) {
+      covered.push(entry)
+      continue
+    }
+
+    // The pantry's own category wins over the keyword guess
+    const section = stock.find((item) => item.category)?.category ?? getStoreSection(entry.name)
+    const inPantry = stock.find((item) => item.quantity !== null)
+    const items = sections.get(section) ?? []
+    items.push({
+      ...needed,
+      section,
+      in_pantry: inPantry ? { quantity: inPantry.quantity, unit: inPantry.unit } : null,
+    })
+    sections.set(section, items)
+  }
+
+  return {
+    sections: storeSections
+      .filter((section) => sections.has(section))
+      .map((section) => ({
+        section,
+        items: sections.get(section)!.sort((a, b) => a.name.localeCompare(b.name)),
+      })),
+    covered: covered.sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
@@ -0,0 +1,36 @@
+import { isValid, parseISO } from "date-fns"
+import { z } from "zod"
+import type { Recipe } from "@/lib/api/schemas"
+
+export const mealSlots = ["breakfast", "lunch", "dinner"] as const
+
+export type MealSlot = (typeof mealSlots)[number]
+
+/** A row of the `meal_plan_entries` table (scripts/07-create-meal-plan-entries-table.sql). */
+export interface MealPlanEntryRow {
+  id: string
+  user_id: string
+  /** ISO date (yyyy-MM-dd) */
+  plan_date: string
+  slot: MealSlot
+  recipe_id: string
+  recipe: unknown
+  servings: number
+  added_at: string
+}
+
+/** A planned meal with its parsed recipe snapshot. */
+export interface MealPlanEntry {
+  id: string
+  plan_date: string
+  slot: MealSlot
+  recipe: Recipe
+  servings: number
+}
+
+export const planDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be yyyy-MM-dd")
+  .refine((value) => isValid(parseISO(value)), "That date doesn't exist")
+
+export const mealPlanServingsSchema = z.number().int().min(1).max(50)
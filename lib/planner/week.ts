@@ -0,0 +1,33 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns"
+import type { MealPlanEntry } from "@/lib/planner/schemas"
+
+// Weeks run Monday to Sunday.
+export function getWeekStart(date: Date): Date {
+  return startOfWeek(date, { weekStartsOn: 1 })
+}
+
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+}
+
+export function toPlanDate(date: Date): string {
+  return format(date, "yyyy-MM-dd")
+}
+
+export function fromPlanDate(planDate: string): Date {
+  return parseISO(planDate)
+}
+
+/** Prep plus cook minutes of everything planned on a day. */
+export function totalMinutesForDay(entries: MealPlanEntry[], planDate: string): number {
+  return entries
+    .filter((entry) => entry.plan_date === planDate)
+    .reduce((total, entry) => total + (entry.recipe.prep_time || 0) + (entry.recipe.cook_time || 0), 0)
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} mins`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
@@ -0,0 +1,49 @@
+import { z } from "zod"
+import { createNameMatcher } from "@/lib/ingredients/match"
+import bundledPrices from "@/lib/pricing/prices.json"
+import { loadVersionedTable } from "@/lib/versioned-table"
+
+// Prices are for the smallest pack most shops sell, since that is what a cook
+// missing an ingredient actually pays.
+const priceEntrySchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()),
+  /** The pack the price is for, as shown to the user ("500 g", "1 bunch"). */
+  pack: z.string(),
+  price: z.number().nonnegative(),
+})
+
+const priceDatabaseSchema = z.object({
+  currency: z.string().length(3),
+  source: z.string(),
+  prices: z.array(priceEntrySchema),
+})
+
+export type PriceEntry = z.infer<typeof priceEntrySchema>
+
+const database = loadVersionedTable(priceDatabaseSchema, bundledPrices)
+
+export const PRICE_DATABASE_VERSION = database.version
+
+export const PRICE_DATABASE_SOURCE = database.source
+
+export const PRICE_CURRENCY = database.currency
+
+export const priceEntries: readonly PriceEntry[] = database.prices
+
+const matchPriceEntry = createNameMatcher(priceEntries, (entry) => [entry.name, ...entry.aliases])
+
+/** The price entry for an ingredient name, or null when the table doesn't know it. */
+export function findPriceEntry(ingredient: string): PriceEntry | null {
+  return matchPriceEntry(ingredient)
+}
+
+const priceFormat = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: PRICE_CURRENCY,
+  maximumFractionDigits: 0,
+})
+
+export function formatPrice(amount: number): string {
+  return priceFormat.format(amount)
+}
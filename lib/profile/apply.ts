@@ -0,0 +1,39 @@
+import type { RecipeRequest, SuggestRequest } from "@/lib/api/schemas"
+import type { DietaryProfile } from "@/lib/profile/schemas"
+
+/**
+ * Fills in the dietary fields a suggest request left out from the user's
+ * profile. Explicit values win, including an empty list or null cuisine,
+ * which search without the profile.
+ */
+export function applyDietaryProfile(body: SuggestRequest, profile: DietaryProfile): RecipeRequest {
+  const { dietary_restrictions, cuisine_preference, ...rest } = body
+  const restrictions = dietary_restrictions ?? profile.dietary_restrictions
+  const cuisine = cuisine_preference === undefined ? profile.cuisine_preference : cuisine_preference
+  return {
+    ...rest,
+    ...(restrictions.length > 0 && { dietary_restrictions: restrictions }),
+    ...(cuisine && { cuisine_preference: cuisine }),
+  }
+}
+
+/**
+ * The same for search query strings: a missing `cuisine` or `diet` comes from
+ * the profile and an empty one is dropped. Search only filters by one diet, so
+ * the first restriction is used.
+ */
+export function applyDietaryProfileToSearch(params: URLSearchParams, profile: DietaryProfile): URLSearchParams {
+  const applied = new URLSearchParams(params)
+  const defaults: Record<string, string | null> = {
+    cuisine: profile.cuisine_preference,
+    diet: profile.dietary_restrictions[0] ?? null,
+  }
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (!applied.has(key)) {
+      if (fallback) applied.set(key, fallback)
+    } else if (!applied.get(key)) {
+      applied.delete(key)
+    }
+  }
+  return applied
+}
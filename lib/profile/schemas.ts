@@ -0,0 +1,51 @@
+import { z } from "zod"
+import { allergens } from "@/lib/allergens/taxonomy"
+import { cuisineTypes, dietaryRestrictions } from "@/lib/api/schemas"
+
+/** Keys under which the settings live in Supabase `user_metadata`. */
+export const DIETARY_PROFILE_METADATA_KEY = "dietary_profile"
+export const ALLERGEN_SETTINGS_METADATA_KEY = "allergen_settings"
+
+export const dietaryProfileSchema = z.object({
+  dietary_restrictions: z.array(z.enum(dietaryRestrictions)).default([]),
+  cuisine_preference: z.enum(cuisineTypes).nullable().default(null),
+})
+
+export type DietaryProfile = z.infer<typeof dietaryProfileSchema>
+
+export const emptyDietaryProfile: DietaryProfile = { dietary_restrictions: [], cuisine_preference: null }
+
+/** Reads the profile from user metadata, falling back to no preferences when it's missing or malformed. */
+export function dietaryProfileFromMetadata(metadata: Record<string, unknown> | undefined): DietaryProfile {
+  const parsed = dietaryProfileSchema.safeParse(metadata?.[DIETARY_PROFILE_METADATA_KEY])
+  return parsed.success ? parsed.data : emptyDietaryProfile
+}
+
+export function isEmptyDietaryProfile(profile: DietaryProfile): boolean {
+  return profile.dietary_restrictions.length === 0 && profile.cuisine_preference === null
+}
+
+const capitalise = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+/** e.g. "Vegetarian, gluten-free · Indian", or "No preferences". */
+export function describeDietaryProfile(profile: DietaryProfile): string {
+  const parts = []
+  if (profile.dietary_restrictions.length) parts.push(capitalise(profile.dietary_restrictions.join(", ")))
+  if (profile.cuisine_preference) parts.push(capitalise(profile.cuisine_preference))
+  return parts.length ? parts.join(" · ") : "No preferences"
+}
+
+export const allergenSettingsSchema = z.object({
+  allergens: z.array(z.enum(allergens)).default([]),
+  /** Leave recipes with these allergens out of dashboard results instead of only flagging them. */
+  hide_recipes: z.boolean().default(false),
+})
+
+export type AllergenSettings = z.infer<typeof allergenSettingsSchema>
+
+export const emptyAllergenSettings: AllergenSettings = { allergens: [], hide_recipes: false }
+
+export function allergenSettingsFromMetadata(metadata: Record<string, unknown> | undefined): AllergenSettings {
+  const parsed = allergenSettingsSchema.safeParse(metadata?.[ALLERGEN_SETTINGS_METADATA_KEY])
+  return parsed.success ? parsed.data : emptyAllergenSettings
+}
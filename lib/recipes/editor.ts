@@ -0,0 +1,112 @@
+import { z } from "zod"
+import type { Recipe } from "@/lib/api/schemas"
+import type { RecipeRow } from "@/lib/recipes/rows"
+
+export const recipeDifficulties = ["Easy", "Medium", "Hard"] as const
+
+// Inputs stay strings while editing; blank means "not set".
+const optionalPositive = (label: string, { integer = false } = {}) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => {
+      if (value === "") return true
+      const number = Number(value)
+      return Number.isFinite(number) && number > 0 && (!integer || Number.isInteger(number))
+    }, `${label} must be a positive ${integer ? "whole number" : "number"}`)
+
+export const recipeFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  description: z.string().trim().max(2000),
+  cuisine: z.string().trim().max(60),
+  diet: z.string().trim().max(60),
+  difficulty: z.enum(["", ...recipeDifficulties]),
+  prep_time: optionalPositive("Prep time", { integer: true }),
+  cook_time: optionalPositive("Cook time", { integer: true }),
+  servings: optionalPositive("Servings", { integer: true }),
+  image_url: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || /^https?:\/\/\S+$/i.test(value), "Image must be an http(s) URL"),
+  is_public: z.boolean(),
+  ingredients: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Ingredient name is required").max(100),
+        quantity: optionalPositive("Quantity"),
+        unit: z.string().trim().max(30),
+      }),
+    )
+    .min(1, "Add at least one ingredient"),
+  steps: z.array(z.object({ text: z.string().trim().min(1, "Steps can't be empty").max(2000) })).min(1, "Add at least one step"),
+})
+
+export type RecipeFormValues = z.infer<typeof recipeFormSchema>
+
+export const emptyRecipeForm: RecipeFormValues = {
+  name: "",
+  description: "",
+  cuisine: "",
+  diet: "",
+  difficulty: "",
+  prep_time: "",
+  cook_time: "",
+  servings: "",
+  image_url: "",
+  is_public: false,
+  ingredients: [{ name: "", quantity: "", unit: "" }],
+  steps: [{ text: "" }],
+}
+
+const toText = (value: number | string | undefined) => (value === undefined ? "" : String(value))
+
+export function recipeToFormValues(recipe: Recipe, isPublic = false): RecipeFormValues {
+  const difficulty = recipeDifficulties.find((level) => level.toLowerCase() === recipe.difficulty?.toLowerCase())
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    cuisine: recipe.cuisine ?? "",
+    diet: recipe.diet ?? "",
+    difficulty: difficulty ?? "",
+    prep_time: toText(recipe.prep_time),
+    cook_time: toText(recipe.cook_time),
+    servings: toText(recipe.servings),
+    image_url: recipe.image_url ?? "",
+    is_public: isPublic,
+    ingredients: recipe.ingredients.length
+      ? recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          quantity: toText(ingredient.quantity),
+          unit: ingredient.unit ?? "",
+        }))
+      : emptyRecipeForm.ingredients,
+    steps: recipe.instructions.length ? recipe.instructions.map((text) => ({ text })) : emptyRecipeForm.steps,
+  }
+}
+
+export type RecipeRowInput = Omit<RecipeRow, "id" | "created_at" | "owner_id" | "updated_at">
+
+const blankToNull = (value: string) => (value === "" ? null : value)
+
+/** Converts validated form values into columns of the `recipes` table. */
+export function recipeFormToRow(values: RecipeFormValues): RecipeRowInput {
+  return {
+    name: values.name,
+    description: blankToNull(values.description),
+    cuisine: blankToNull(values.cuisine),
+    diet: blankToNull(values.diet),
+    difficulty: blankToNull(values.difficulty),
+    prep_time: blankToNull(values.prep_time),
+    cook_time: blankToNull(values.cook_time),
+    servings: values.servings === "" ? null : Number(values.servings),
+    image_url: blankToNull(values.image_url),
+    is_public: values.is_public,
+    ingredients: values.ingredients.map(({ name, quantity, unit }) => ({
+      name,
+      ...(quantity !== "" && { quantity: Number(quantity) }),
+      ...(unit !== "" && { unit }),
+    })),
+    // One step per line, see splitInstructions in lib/recipes/rows.ts
+    instructions: values.steps.map((step) => step.text.replace(/\s*\r?\n\s*/g, " ")).join("\n"),
+  }
+}
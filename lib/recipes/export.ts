@@ -0,0 +1,137 @@
+import type { Ingredient, Recipe } from "@/lib/api/schemas"
+import { formatAmountIn } from "@/lib/units/format"
+import { isInformalUnit, type UnitSystem } from "@/lib/units/units"
+
+// Exports take the recipe as shown on the detail page, so quantities are
+// already scaled to the chosen servings and match data is overlaid.
+
+export interface RecipeExportOptions {
+  unitSystem?: UnitSystem | null
+}
+
+export function formatIngredientLine(ingredient: Ingredient, unitSystem: UnitSystem | null = null): string {
+  if (!ingredient.quantity && !ingredient.unit) return ingredient.name
+  const amount = formatAmountIn(ingredient.quantity, ingredient.unit, unitSystem)
+  // "salt, to taste" rather than "to taste salt"
+  if (!ingredient.quantity && isInformalUnit(ingredient.unit)) return `${ingredient.name}, ${amount}`
+  return `${amount} ${ingredient.name}`
+}
+
+/** One-line summaries of the search match, empty when the recipe wasn't reached from a search. */
+export function matchSummaryLines(recipe: Recipe): string[] {
+  const lines: string[] = []
+  if (recipe.match_percentage !== undefined) lines.push(`Match: ${recipe.match_percentage.toFixed(0)}%`)
+  if (recipe.matched_ingredients?.length) lines.push(`You have: ${recipe.matched_ingredients.join(", ")}`)
+  if (recipe.missing_ingredients?.length) lines.push(`You need: ${recipe.missing_ingredients.join(", ")}`)
+  return lines
+}
+
+function detailLines(recipe: Recipe): string[] {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+  return [
+    recipe.servings ? `Servings: ${recipe.servings}` : null,
+    recipe.prep_time ? `Prep time: ${recipe.prep_time} mins` : null,
+    recipe.cook_time ? `Cook time: ${recipe.cook_time} mins` : null,
+    totalTime ? `Total time: ${totalTime} mins` : null,
+    recipe.cuisine ? `Cuisine: ${recipe.cuisine}` : null,
+    recipe.diet ? `Diet: ${recipe.diet}` : null,
+  ].filter((line): line is string => line !== null)
+}
+
+export function toMarkdown(recipe: Recipe, { unitSystem = null }: RecipeExportOptions = {}): string {
+  const sections = [`# ${recipe.name}`]
+  if (recipe.description) sections.push(recipe.description)
+  if (recipe.image_url) sections.push(`![${recipe.name}](${recipe.image_url})`)
+
+  const details = detailLines(recipe)
+  if (details.length) sections.push(details.map((line) => `- ${line}`).join("\n"))
+
+  sections.push(
+    "## Ingredients",
+    recipe.ingredients.map((ingredient) => `- ${formatIngredientLine(ingredient, unitSystem)}`).join("\n"),
+    "## Instructions",
+    recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+  )
+
+  const match = matchSummaryLines(recipe)
+  if (match.length) sections.push("## Your Ingredients", match.map((line) => `- ${line}`).join("\n"))
+
+  return `${sections.join("\n\n")}\n`
+}
+
+export function toPlainText(recipe: Recipe, { unitSystem = null }: RecipeExportOptions = {}): string {
+  const sections = [recipe.name.toUpperCase()]
+  if (recipe.description) sections.push(recipe.description)
+
+  const details = detailLines(recipe)
+  if (details.length) sections.push(details.join("\n"))
+
+  sections.push(
+    ["INGREDIENTS", ...recipe.ingredients.map((ingredient) => `* ${formatIngredientLine(ingredient, unitSystem)}`)].join("\n"),
+    ["INSTRUCTIONS", ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`)].join("\n"),
+  )
+
+  const match = matchSummaryLines(recipe)
+  if (match.length) sections.push(["YOUR INGREDIENTS", ...match].join("\n"))
+
+  return `${sections.join("\n\n")}\n`
+}
+
+const isoDuration = (minutes: number) => `PT${Math.floor(minutes / 60) ? `${Math.floor(minutes / 60)}H` : ""}${minutes % 60 ? `${minutes % 60}M` : ""}`
+
+/** A schema.org Recipe object, readable by lib/recipes/import.ts and most recipe apps. */
+export function toJsonLd(recipe: Recipe, { unitSystem = null }: RecipeExportOptions = {}): Record<string, unknown> {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+  const match = matchSummaryLines(recipe)
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.name,
+    ...(recipe.description && { description: recipe.description }),
+    ...(recipe.image_url && { image: recipe.image_url }),
+    ...(recipe.cuisine && { recipeCuisine: recipe.cuisine }),
+    ...(recipe.course && { recipeCategory: recipe.course }),
+    ...(recipe.diet && { keywords: recipe.diet }),
+    ...(recipe.prep_time && { prepTime: isoDuration(recipe.prep_time) }),
+    ...(recipe.cook_time && { cookTime: isoDuration(recipe.cook_time) }),
+    ...(totalTime > 0 && { totalTime: isoDuration(totalTime) }),
+    ...(recipe.servings && { recipeYield: `${recipe.servings} servings` }),
+    recipeIngredient: recipe.ingredients.map((ingredient) => formatIngredientLine(ingredient, unitSystem)),
+    recipeInstructions: recipe.instructions.map((text, index) => ({ "@type": "HowToStep", position: index + 1, text })),
+    // schema.org has no match vocabulary; a comment keeps it human-readable
+    ...(match.length && { comment: { "@type": "Comment", text: `PantryIQ match. ${match.join(". ")}` } }),
+  }
+}
+
+/** Several recipes as one schema.org ItemList, used for bulk cookbook export. */
+export function toJsonLdBundle(name: string, recipes: Recipe[]): Record<string, unknown> {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name,
+    dateCreated: new Date().toISOString(),
+    numberOfItems: recipes.length,
+    itemListElement: recipes.map((recipe, index) => {
+      const { "@context": _context, ...item } = toJsonLd(recipe)
+      return { "@type": "ListItem", position: index + 1, item }
+    }),
+  }
+}
+
+export function exportFileName(name: string, extension: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return `${slug || "recipe"}.${extension}`
+}
+
+/** Browser-only: saves text as a file download. */
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
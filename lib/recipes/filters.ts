@@ -0,0 +1,118 @@
+import type { Recipe } from "@/lib/api/schemas"
+
+export const recipeSorts = ["best-match", "quickest", "fewest-missing"] as const
+
+export type RecipeSort = (typeof recipeSorts)[number]
+
+/** Dashboard filters; null means "any" (or, for `sort`, the order results arrived in). */
+export interface RecipeFilters {
+  cuisine: string | null
+  diet: string | null
+  maxTime: number | null
+  difficulty: string | null
+  minMatch: number | null
+  sort: RecipeSort | null
+}
+
+export const emptyRecipeFilters: RecipeFilters = {
+  cuisine: null,
+  diet: null,
+  maxTime: null,
+  difficulty: null,
+  minMatch: null,
+  sort: null,
+}
+
+// Query parameter for each filter, kept short so shared links stay readable
+const PARAM_NAMES: Record<keyof RecipeFilters, string> = {
+  cuisine: "cuisine",
+  diet: "diet",
+  maxTime: "max_time",
+  difficulty: "difficulty",
+  minMatch: "min_match",
+  sort: "sort",
+}
+
+const positiveNumber = (value: string | null) => {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/** Reads filters from a query string, ignoring anything malformed. */
+export function parseRecipeFilters(params: URLSearchParams): RecipeFilters {
+  const text = (key: keyof RecipeFilters) => params.get(PARAM_NAMES[key])?.trim().toLowerCase() || null
+  const sort = text("sort")
+  return {
+    cuisine: text("cuisine"),
+    diet: text("diet"),
+    maxTime: positiveNumber(params.get(PARAM_NAMES.maxTime)),
+    difficulty: text("difficulty"),
+    minMatch: positiveNumber(params.get(PARAM_NAMES.minMatch)),
+    sort: recipeSorts.includes(sort as RecipeSort) ? (sort as RecipeSort) : null,
+  }
+}
+
+/** Writes filters into a copy of `params`, leaving unrelated parameters alone. */
+export function writeRecipeFilters(params: URLSearchParams, filters: RecipeFilters): URLSearchParams {
+  const written = new URLSearchParams(params)
+  for (const key of Object.keys(PARAM_NAMES) as (keyof RecipeFilters)[]) {
+    const value = filters[key]
+    if (value === null) written.delete(PARAM_NAMES[key])
+    else written.set(PARAM_NAMES[key], String(value))
+  }
+  return written
+}
+
+export function hasActiveFilters(filters: RecipeFilters): boolean {
+  return Object.values(filters).some((value) => value !== null)
+}
+
+export const totalTime = (recipe: Recipe) => (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+const same = (value: string | undefined, filter: string) => value?.trim().toLowerCase() === filter
+
+/**
+ * Filters and sorts recipes. Recipes without a known total time are dropped by
+ * a time limit, but ones without a match percentage (name searches, featured
+ * recipes) pass the minimum match filter, which only ranks ingredient matches.
+ */
+export function applyRecipeFilters(recipes: Recipe[], filters: RecipeFilters): Recipe[] {
+  const filtered = recipes.filter(
+    (recipe) =>
+      (filters.cuisine === null || same(recipe.cuisine, filters.cuisine)) &&
+      (filters.diet === null || same(recipe.diet, filters.diet)) &&
+      (filters.difficulty === null || same(recipe.difficulty, filters.difficulty)) &&
+      (filters.maxTime === null || (totalTime(recipe) > 0 && totalTime(recipe) <= filters.maxTime)) &&
+      (filters.minMatch === null ||
+        recipe.match_percentage === undefined ||
+        recipe.match_percentage >= filters.minMatch),
+  )
+
+  const match = (recipe: Recipe) => recipe.match_percentage ?? -1
+  const missing = (recipe: Recipe) => recipe.missing_ingredients?.length ?? Number.MAX_SAFE_INTEGER
+  const time = (recipe: Recipe) => totalTime(recipe) || Number.MAX_SAFE_INTEGER
+
+  switch (filters.sort) {
+    case "best-match":
+      return filtered.sort((a, b) => match(b) - match(a))
+    case "quickest":
+      return filtered.sort((a, b) => time(a) - time(b))
+    case "fewest-missing":
+      return filtered.sort((a, b) => missing(a) - missing(b) || match(b) - match(a))
+    default:
+      return filtered
+  }
+}
+
+/**
+ * Distinct values of a text field across recipes, for filter options. Values
+ * are compared case-insensitively; the first spelling seen is used as the label.
+ */
+export function filterOptions(recipes: Recipe[], field: "cuisine" | "diet" | "difficulty"): { value: string; label: string }[] {
+  const options = new Map<string, string>()
+  for (const recipe of recipes) {
+    const label = recipe[field]?.trim()
+    if (label && !options.has(label.toLowerCase())) options.set(label.toLowerCase(), label)
+  }
+  return Array.from(options, ([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label))
+}
@@ -0,0 +1,130 @@
+import type { GraphSubstitution, IngredientGapResponse, Recipe } from "@/lib/api/schemas"
+import { findPriceEntry } from "@/lib/pricing/database"
+import { hasIngredient, recipeSubstitutionSuggestions } from "@/lib/recipes/substitutions"
+
+export type GapStatus = "have" | "substitute" | "buy"
+
+export interface GapSubstitute {
+  /** The user's ingredient standing in for the recipe's. */
+  name: string
+  /** Graph similarity, 0–1; null for the recipe's own suggestions. */
+  similarity: number | null
+  reason: string
+  /** Whether both are in the same ingredient category; null when unknown. */
+  categoryMatch: boolean | null
+}
+
+export interface GapItem {
+  ingredient: string
+  status: GapStatus
+  substitute?: GapSubstitute
+  /** Price of the smallest pack, for ingredients to buy; null when the price table doesn't know it. */
+  cost: number | null
+  pack?: string
+}
+
+export interface GapAnalysis {
+  items: GapItem[]
+  /** Share of ingredients the user has or can substitute, 0–1. */
+  feasibility: number
+  /** Where `feasibility` came from: the server's score or the local breakdown. */
+  feasibilitySource: "server" | "local"
+  extraCost: number
+  /** Ingredients to buy that have no known price and are left out of `extraCost`. */
+  unpriced: string[]
+  /** Where `extraCost` came from: the server's estimate or the bundled price table. */
+  costSource: "server" | "local"
+}
+
+export interface GapSources {
+  /** The server's gap analysis, when it knows the recipe. */
+  gap?: IngredientGapResponse | null
+  /** Graph substitutes per missing ingredient, used when the server's analysis isn't available. */
+  substitutions?: Record<string, GraphSubstitution[]>
+}
+
+const normalise = (name: string) => name.trim().toLowerCase()
+
+// Nobody lists these, so they're assumed to be in every kitchen
+const STAPLES = ["water", "salt"]
+
+function findSubstitute(recipe: Recipe, ingredient: string, available: readonly string[], sources: GapSources): GapSubstitute | null {
+  const recommendation = sources.gap?.substitution_recommendations.find(
+    (candidate) => normalise(candidate.original) === normalise(ingredient),
+  )
+  if (recommendation) {
+    return {
+      name: recommendation.substitute,
+      similarity: recommendation.similarity_score,
+      reason: recommendation.reason,
+      categoryMatch: recommendation.category_match,
+    }
+  }
+
+  // Like the server: the most similar graph substitute the user has
+  const graph = [...(sources.substitutions?.[ingredient] ?? [])].sort((a, b) => b.similarity_score - a.similarity_score)
+  const fromGraph = graph.find((candidate) => hasIngredient(available, candidate.ingredient))
+  if (fromGraph) {
+    return {
+      name: fromGraph.ingredient,
+      similarity: fromGraph.similarity_score,
+      reason: fromGraph.relationship_type === "direct_substitution" ? "Common substitute" : "Related ingredient",
+      categoryMatch: null,
+    }
+  }
+
+  const suggested = recipeSubstitutionSuggestions(recipe, ingredient).find((name) => hasIngredient(available, name))
+  return suggested ? { name: suggested, similarity: null, reason: "Suggested for this recipe", categoryMatch: null } : null
+}
+
+// The server only knows a few recipes, and its ids can collide with the dataset's,
+// so its analysis is used only when it names this recipe
+const describesRecipe = (gap: IngredientGapResponse, recipe: Recipe) =>
+  gap.recipe_id === recipe.id && normalise(gap.recipe_name) === normalise(recipe.name)
+
+/**
+ * Works out which of a recipe's ingredients the user has, can substitute, or
+ * has to buy. Ingredients are matched by name locally, so "basmati rice" counts
+ * as having rice, and water and salt are assumed. Substitutes come from the
+ * server's analysis when given, then graph substitutes, then the recipe's own
+ * suggestions. The server's analysis is ignored when it describes a different
+ * recipe. Extra cost is the server's when it gave one, otherwise it comes from
+ * the price table. Feasibility is ingredients had or substituted over all
+ * ingredients; the server's score is shown only when its missing ingredients
+ * and score agree with this breakdown, since it matches names exactly.
+ */
+export function analyseIngredientGap(recipe: Recipe, available: readonly string[], allSources: GapSources = {}): GapAnalysis {
+  const sources = allSources.gap && !describesRecipe(allSources.gap, recipe) ? { ...allSources, gap: null } : allSources
+  const names = Array.from(
+    new Map(
+      recipe.ingredients.map((ingredient) => ingredient.name.trim()).filter(Boolean).map((name) => [normalise(name), name]),
+    ).values(),
+  )
+
+  const items: GapItem[] = names.map((ingredient) => {
+    if (hasIngredient([...available, ...STAPLES], ingredient)) return { ingredient, status: "have", cost: null }
+    const substitute = findSubstitute(recipe, ingredient, available, sources)
+    if (substitute) return { ingredient, status: "substitute", substitute, cost: null }
+    const price = findPriceEntry(ingredient)
+    return { ingredient, status: "buy", cost: price?.price ?? null, pack: price?.pack }
+  })
+
+  const toBuy = items.filter((item) => item.status === "buy")
+  const localFeasibility = items.length ? (items.length - toBuy.length) / items.length : 0
+  const missing = items.filter((item) => item.status !== "have").length
+  const serverFeasibility =
+    sources.gap &&
+    sources.gap.missing_ingredients.length === missing &&
+    Math.abs(sources.gap.feasibility_score - localFeasibility) < 1e-6
+      ? sources.gap.feasibility_score
+      : null
+  const serverCost = sources.gap?.estimated_cost_increase
+  return {
+    items,
+    feasibility: serverFeasibility ?? localFeasibility,
+    feasibilitySource: serverFeasibility === null ? "local" : "server",
+    extraCost: serverCost ?? toBuy.reduce((sum, item) => sum + (item.cost ?? 0), 0),
+    unpriced: serverCost === undefined ? toBuy.filter((item) => item.cost === null).map((item) => item.ingredient) : [],
+    costSource: serverCost === undefined ? "local" : "server",
+  }
+}
@@ -0,0 +1,212 @@
+import type { Ingredient, Recipe } from "@/lib/api/schemas"
+import { parseQuantity, parseUnit } from "@/lib/units/units"
+
+// Extracts a schema.org/Recipe from pasted JSON-LD or page HTML. Everything
+// runs on the pasted text; nothing is fetched.
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RecipeImportError"
+  }
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value])
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", frac12: "½", frac14: "¼", frac34: "¾", deg: "°" }
+
+/** Strips tags and decodes the entities blogs commonly leave inside JSON-LD strings. */
+function cleanText(value: unknown): string {
+  if (typeof value !== "string") return ""
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        // Out-of-range code points would make fromCodePoint throw; leave them as written
+        return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+  return asArray(node["@type"]).some((value) => typeof value === "string" && value.replace(/^.*[/#]/, "") === type)
+}
+
+// Recipes can sit at the top level, in an array, in `@graph`, under
+// `mainEntity` or inside an ItemList (e.g. an exported cookbook).
+function findRecipeNode(value: unknown, depth = 0): JsonObject | null {
+  if (depth > 6) return null
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findRecipeNode(item, depth + 1)
+      if (found) return found
+    }
+    return null
+  }
+  if (!isObject(value)) return null
+  if (hasType(value, "Recipe")) return value
+  for (const key of ["@graph", "mainEntity", "mainEntityOfPage", "itemListElement", "item"]) {
+    const found = findRecipeNode(value[key], depth + 1)
+    if (found) return found
+  }
+  return null
+}
+
+function jsonLdBlocks(html: string): string[] {
+  const pattern = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+  return Array.from(html.matchAll(pattern), (match) => match[1].trim())
+}
+
+/** Minutes in an ISO 8601 duration such as "PT1H30M" or "P0DT45M". */
+export function parseIsoDuration(value: unknown): number | undefined {
+  if (typeof value !== "string") return undefined
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i)
+  if (!match) return undefined
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0))
+  const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60)
+  return total > 0 ? total : undefined
+}
+
+function parseYield(value: unknown): number | undefined {
+  for (const candidate of asArray(value)) {
+    const servings = typeof candidate === "number" ? candidate : parseInt(String(candidate).match(/\d+/)?.[0] ?? "", 10)
+    if (Number.isFinite(servings) && servings > 0) return servings
+  }
+  return undefined
+}
+
+function parseImage(value: unknown): string | undefined {
+  for (const candidate of asArray(value)) {
+    const url = isObject(candidate) ? candidate.url : candidate
+    if (typeof url === "string" && /^https?:\/\//i.test(url)) return url
+  }
+  return undefined
+}
+
+const TO_TASTE = /,?\s*\b(to taste|as required|as needed)\b\.?$/i
+
+// A pack size between the amount and the unit, as in "1 (14 oz) can tomatoes"
+const PACK_SIZE = /^([\d\s./½¼¾⅓⅔⅛⅜⅝⅞–-]+?)\s*\([^)]*\)\s*/
+
+/** Turns "1 ½ cups basmati rice, rinsed" into `{ name: "basmati rice", quantity: 1.5, unit: "cup" }`. */
+export function parseIngredientLine(line: string): Ingredient | null {
+  let text = cleanText(line)
+  if (!text) return null
+
+  let informalUnit: string | undefined
+  if (TO_TASTE.test(text)) {
+    informalUnit = parseUnit(text.match(TO_TASTE)![1])?.id
+    text = text.replace(TO_TASTE, "").trim()
+  }
+
+  const { quantity, unit, rest } = parseQuantity(text.replace(PACK_SIZE, "$1 "))
+  // Drop preparation notes: "garlic, minced" and "cream (optional)" become "garlic" and "cream"
+  const name =
+    rest
+      .replace(/\([^)]*\)/g, "")
+      .split(",")[0]
+      .replace(/^[\s-]+|\s+$/g, "")
+      .replace(/\s+/g, " ") || text
+  return {
+    name,
+    ...(quantity !== null && { quantity }),
+    ...((unit ?? informalUnit) && { unit: unit ?? informalUnit }),
+  }
+}
+
+function parseInstructions(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value
+      .split(/\r?\n|<br\s*\/?>|<\/p>|<\/li>/i)
+      .map(cleanText)
+      .filter(Boolean)
+  }
+
+  const steps: string[] = []
+  for (const item of asArray(value)) {
+    if (typeof item === "string") {
+      steps.push(...parseInstructions(item))
+    } else if (isObject(item) && hasType(item, "HowToSection")) {
+      // Sections flatten into the step list, labelled on their first step
+      const sectionSteps = parseInstructions(item.itemListElement)
+      const sectionName = cleanText(item.name)
+      if (sectionName && sectionSteps.length) sectionSteps[0] = `${sectionName}: ${sectionSteps[0]}`
+      steps.push(...sectionSteps)
+    } else if (isObject(item)) {
+      const text = cleanText(item.text) || cleanText(item.name)
+      if (text) steps.push(text)
+    }
+  }
+  return steps
+}
+
+function parseDiet(value: unknown): string | undefined {
+  const diets = asArray(value)
+    .filter((diet): diet is string => typeof diet === "string")
+    .map((diet) => diet.replace(/^.*[/#]/, "").replace(/Diet$/, "").replace(/([a-z])([A-Z])/g, "$1 $2"))
+  return diets.length ? diets.join(", ") : undefined
+}
+
+function firstText(value: unknown): string | undefined {
+  const text = asArray(value).map(cleanText).find(Boolean)
+  return text || undefined
+}
+
+/**
+ * Finds the schema.org Recipe in pasted JSON-LD or HTML and maps it onto the
+ * app's recipe shape. Throws RecipeImportError when there is nothing usable.
+ */
+export function importRecipe(pasted: string): Recipe {
+  const text = pasted.trim()
+  if (!text) throw new RecipeImportError("Paste a recipe page's HTML or its JSON-LD first")
+
+  const candidates = /^[[{]/.test(text) ? [text] : jsonLdBlocks(text)
+  if (!candidates.length) {
+    throw new RecipeImportError("No JSON-LD found. Paste the page source (HTML) or the recipe's JSON-LD block.")
+  }
+
+  let node: JsonObject | null = null
+  for (const candidate of candidates) {
+    try {
+      node = findRecipeNode(JSON.parse(candidate))
+    } catch {
+      // Some sites ship invalid JSON-LD blocks next to valid ones
+      continue
+    }
+    if (node) break
+  }
+  if (!node) throw new RecipeImportError("The pasted content has no schema.org Recipe")
+
+  const name = firstText(node.name)
+  if (!name) throw new RecipeImportError("The recipe has no name")
+
+  const prepTime = parseIsoDuration(node.prepTime)
+  const cookTime = parseIsoDuration(node.cookTime)
+
+  return {
+    id: "imported",
+    name,
+    description: firstText(node.description) ?? "",
+    ingredients: asArray(node.recipeIngredient ?? node.ingredients)
+      .map((line) => (typeof line === "string" ? parseIngredientLine(line) : null))
+      .filter((ingredient): ingredient is Ingredient => ingredient !== null),
+    instructions: parseInstructions(node.recipeInstructions),
+    prep_time: prepTime,
+    // Some sites only give a total time
+    cook_time: cookTime ?? (prepTime === undefined ? parseIsoDuration(node.totalTime) : undefined),
+    servings: parseYield(node.recipeYield),
+    cuisine: firstText(node.recipeCuisine),
+    course: firstText(node.recipeCategory),
+    diet: parseDiet(node.suitableForDiet),
+    image_url: parseImage(node.image),
+  }
+}
@@ -0,0 +1,63 @@
+import { getRecipe } from "@/lib/api/client"
+import { ApiHttpError } from "@/lib/api/errors"
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+import { getOfflineRecipe, isOfflineRecipeId } from "@/lib/offline/dataset"
+import { createClient } from "@/lib/supabase/server"
+import { UUID_PATTERN, recipeFromRow, type RecipeRow } from "@/lib/recipes/rows"
+import type { SavedRecipeRow } from "@/lib/saved/schemas"
+
+async function loadSavedSnapshot(id: string): Promise<Recipe | null> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from("saved_recipes")
+    .select("recipe")
+    .eq("recipe_id", id)
+    .maybeSingle<Pick<SavedRecipeRow, "recipe">>()
+  if (error) {
+    console.error(`Error loading saved snapshot of recipe ${id}:`, error)
+    return null
+  }
+  const parsed = recipeSchema.safeParse(data?.recipe)
+  return parsed.success ? parsed.data : null
+}
+
+/**
+ * Loads a recipe by id for server components. Dataset recipes come from the
+ * backend, bundled offline recipes from lib/offline, and UUIDs are looked up
+ * in the Supabase `recipes` table, with the user's saved snapshot as a last
+ * resort. Returns null when no source has the recipe, and rethrows backend
+ * failures so the page can show an error instead of a misleading "not found".
+ */
+export async function loadRecipe(id: string): Promise<Recipe | null> {
+  if (isOfflineRecipeId(id)) {
+    return getOfflineRecipe(id)
+  }
+
+  let backendError: unknown = null
+
+  try {
+    return await getRecipe(id, { timeoutMs: 15000 })
+  } catch (error) {
+    if (!(error instanceof ApiHttpError && error.status === 404)) {
+      console.error(`Error loading recipe ${id} from backend:`, error)
+      backendError = error
+    }
+  }
+
+  if (UUID_PATTERN.test(id)) {
+    const supabase = await createClient()
+    const { data, error } = await supabase.from("recipes").select("*").eq("id", id).maybeSingle<RecipeRow>()
+    if (error) {
+      console.error(`Error loading recipe ${id} from Supabase:`, error)
+    } else if (data) {
+      return recipeFromRow(data)
+    }
+  }
+
+  // Fall back to the user's saved snapshot if the recipe has left the dataset
+  const snapshot = await loadSavedSnapshot(id)
+  if (snapshot) return snapshot
+
+  if (backendError) throw backendError
+  return null
+}
@@ -0,0 +1,65 @@
+import { z } from "zod"
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+
+// Match data only exists relative to the search that produced it, so it is
+// carried from the results grid to the detail page in sessionStorage rather
+// than being part of the recipe the server loads.
+const recipeMatchSchema = recipeSchema.pick({
+  match_score: true,
+  match_percentage: true,
+  matched_ingredients: true,
+  missing_ingredients: true,
+  total_matched: true,
+  total_user_ingredients: true,
+  substitution_suggestions: true,
+})
+
+export type RecipeMatch = z.infer<typeof recipeMatchSchema>
+
+/** The recipe without any search-specific match data, e.g. for saving a snapshot. */
+export function withoutRecipeMatch(recipe: Recipe): Recipe {
+  const copy: Record<string, unknown> = { ...recipe }
+  for (const key of Object.keys(recipeMatchSchema.shape)) delete copy[key]
+  delete copy.algorithm_used
+  return copy as Recipe
+}
+
+const storageKey = (id: string) => `recipe_match_${id}`
+
+export function rememberRecipeMatch(recipe: Recipe) {
+  const match = recipeMatchSchema.parse(recipe)
+  if (match.match_percentage === undefined && match.matched_ingredients === undefined) {
+    sessionStorage.removeItem(storageKey(recipe.id))
+    return
+  }
+  sessionStorage.setItem(storageKey(recipe.id), JSON.stringify(match))
+}
+
+export function recallRecipeMatch(id: string): RecipeMatch | null {
+  const stored = sessionStorage.getItem(storageKey(id))
+  if (!stored) return null
+  try {
+    const parsed = recipeMatchSchema.safeParse(JSON.parse(stored))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+const SEARCH_INGREDIENTS_KEY = "recipe_search_ingredients"
+
+/** Remembers the ingredients of the latest ingredient search, for gap analysis on the detail page. */
+export function rememberSearchIngredients(ingredients: string[]) {
+  sessionStorage.setItem(SEARCH_INGREDIENTS_KEY, JSON.stringify(ingredients))
+}
+
+export function recallSearchIngredients(): string[] {
+  const stored = sessionStorage.getItem(SEARCH_INGREDIENTS_KEY)
+  if (!stored) return []
+  try {
+    const parsed = z.array(z.string()).safeParse(JSON.parse(stored))
+    return parsed.success ? parsed.data : []
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,55 @@
+import type { NutritionInfo } from "@/lib/api/schemas"
+
+export const macroNutrients = ["protein", "carbs", "fat"] as const
+
+export type MacroNutrient = (typeof macroNutrients)[number]
+
+// Atwater factors: kcal per gram
+const KCAL_PER_GRAM: Record<MacroNutrient, number> = { protein: 4, carbs: 4, fat: 9 }
+
+/** Whether the recipe has any nutrition value worth showing. */
+export function hasNutrition(nutrition: NutritionInfo | undefined): nutrition is NutritionInfo {
+  return !!nutrition && Object.values(nutrition).some((value) => value !== undefined && value > 0)
+}
+
+export function scaleNutrition(nutrition: NutritionInfo, factor: number): NutritionInfo {
+  const scale = (value: number | undefined) => (value === undefined ? undefined : value * factor)
+  return {
+    calories: scale(nutrition.calories),
+    protein: scale(nutrition.protein),
+    carbs: scale(nutrition.carbs),
+    fat: scale(nutrition.fat),
+    fiber: scale(nutrition.fiber),
+  }
+}
+
+export interface MacroShare {
+  macro: MacroNutrient
+  grams: number
+  calories: number
+  /** Share of the calories coming from the three macros, 0–100. */
+  percentage: number
+}
+
+/**
+ * How the calories split between protein, carbs and fat. Uses the macros
+ * themselves rather than the stated calories, which often include alcohol or
+ * rounding, so the shares always add up to 100. Empty when no macro is known.
+ */
+export function macroSplit(nutrition: NutritionInfo): MacroShare[] {
+  const shares = macroNutrients.map((macro) => {
+    const grams = nutrition[macro] ?? 0
+    return { macro, grams, calories: grams * KCAL_PER_GRAM[macro] }
+  })
+  const total = shares.reduce((sum, share) => sum + share.calories, 0)
+  if (total === 0) return []
+  return shares.map((share) => ({ ...share, percentage: (share.calories / total) * 100 }))
+}
+
+export function formatCalories(calories: number): string {
+  return `${Math.round(calories)} kcal`
+}
+
+export function formatGrams(grams: number): string {
+  return `${grams < 10 ? Math.round(grams * 10) / 10 : Math.round(grams)} g`
+}
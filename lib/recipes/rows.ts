@@ -0,0 +1,53 @@
+import { recipeSchema, type Recipe } from "@/lib/api/schemas"
+
+/** A row of the Supabase `recipes` table (scripts/01-create-recipes-table.sql). */
+export interface RecipeRow {
+  id: string
+  created_at: string
+  name: string
+  description: string | null
+  ingredients: unknown
+  instructions: string
+  prep_time: string | null
+  cook_time: string | null
+  servings: number | null
+  image_url: string | null
+  /** Added by scripts/06-add-recipe-owners.sql */
+  owner_id: string | null
+  is_public: boolean
+  cuisine: string | null
+  diet: string | null
+  difficulty: string | null
+  updated_at: string | null
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// `instructions` is a single TEXT column; steps are stored one per line.
+function splitInstructions(instructions: string): string[] {
+  return instructions
+    .split(/\r?\n/)
+    .map((step) => step.replace(/^\s*\d+[.)]\s*/, "").trim())
+    .filter(Boolean)
+}
+
+// `ingredients` is JSONB and may hold plain strings or `{ name, quantity, unit }` objects.
+function normaliseIngredients(ingredients: unknown): unknown {
+  if (!Array.isArray(ingredients)) return []
+  return ingredients.map((ingredient) =>
+    typeof ingredient === "string" ? { name: ingredient } : ingredient,
+  )
+}
+
+export function recipeFromRow(row: RecipeRow): Recipe | null {
+  const parsed = recipeSchema.safeParse({
+    ...row,
+    ingredients: normaliseIngredients(row.ingredients),
+    instructions: splitInstructions(row.instructions ?? ""),
+  })
+  if (!parsed.success) {
+    console.error(`Recipe row ${row.id} has an unexpected shape:`, parsed.error.issues)
+    return null
+  }
+  return parsed.data
+}
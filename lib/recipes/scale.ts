@@ -0,0 +1,54 @@
+import type { Ingredient, Recipe } from "@/lib/api/schemas"
+import { isInformalUnit } from "@/lib/units/units"
+
+/** Used as the base when a recipe doesn't say how many it serves. */
+export const DEFAULT_SERVINGS = 4
+
+export const MIN_SERVINGS = 1
+export const MAX_SERVINGS = 50
+
+export interface ScaledIngredient extends Ingredient {
+  /**
+   * True for amounts that can't simply be multiplied, like "to taste", a
+   * pinch, or an ingredient with no quantity at all.
+   */
+  scalesNonLinearly: boolean
+}
+
+export type ScaledRecipe = Omit<Recipe, "ingredients"> & { ingredients: ScaledIngredient[] }
+
+export function getBaseServings(recipe: Recipe): number {
+  return recipe.servings && recipe.servings > 0 ? recipe.servings : DEFAULT_SERVINGS
+}
+
+export function clampServings(servings: number): number {
+  if (!Number.isFinite(servings)) return MIN_SERVINGS
+  return Math.min(MAX_SERVINGS, Math.max(MIN_SERVINGS, Math.round(servings)))
+}
+
+/** Parses a `?servings=` search param, falling back to the recipe's own count. */
+export function parseServingsParam(value: string | string[] | undefined, recipe: Recipe): number {
+  const parsed = Number(Array.isArray(value) ? value[0] : value)
+  return value && Number.isFinite(parsed) ? clampServings(parsed) : getBaseServings(recipe)
+}
+
+export function scaleIngredient(ingredient: Ingredient, factor: number): ScaledIngredient {
+  if (!ingredient.quantity || isInformalUnit(ingredient.unit)) {
+    return { ...ingredient, scalesNonLinearly: true }
+  }
+  return { ...ingredient, quantity: ingredient.quantity * factor, scalesNonLinearly: false }
+}
+
+/**
+ * Rescales every ingredient to the given number of servings. Quantities keep
+ * full precision; rounding to kitchen fractions happens when they are
+ * formatted (see lib/units/format.ts).
+ */
+export function scaleRecipe(recipe: Recipe, servings: number): ScaledRecipe {
+  const factor = servings / getBaseServings(recipe)
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) => scaleIngredient(ingredient, factor)),
+  }
+}
@@ -0,0 +1,108 @@
+import type { GraphSubstitution, Recipe } from "@/lib/api/schemas"
+import { ingredientKey } from "@/lib/ingredients/vocabulary"
+
+export interface SubstituteOption {
+  ingredient: string
+  /** Graph similarity, 0–1; null for the recipe's own suggestions, which aren't scored. */
+  score: number | null
+  reason: string
+  /** The user already has it, in their pantry or among the ingredients they searched with. */
+  available: boolean
+}
+
+const normalise = (name: string) => name.trim().toLowerCase()
+
+// Padded so a whole-word check is a substring check
+const paddedKey = (name: string) => ` ${ingredientKey(name)} `
+
+const containsWord = (text: string, word: string) => paddedKey(text).includes(paddedKey(word))
+
+/**
+ * Whether any of the user's ingredients is the named one. Names are compared by
+ * their vocabulary key, so "aloo" covers "potatoes", and either may be the more
+ * specific, so "basmati rice" covers "rice" and "rice" covers "basmati rice".
+ */
+export function hasIngredient(available: readonly string[], name: string): boolean {
+  const wanted = normalise(name)
+  if (!wanted) return false
+  return available.some((candidate) => {
+    const have = normalise(candidate)
+    return !!have && (have === wanted || containsWord(have, wanted) || containsWord(wanted, have))
+  })
+}
+
+function describeGraphSubstitution(substitution: GraphSubstitution): string {
+  const category = substitution.category && substitution.category !== "unknown" ? ` (${substitution.category})` : ""
+  if (substitution.relationship_type === "direct_substitution") return `Common substitute${category}`
+  const via = substitution.path?.[1]
+  return via ? `Often used alongside ${via}${category}` : `Related ingredient${category}`
+}
+
+/** The recipe's own suggestions for a missing ingredient, matched case-insensitively. */
+export function recipeSubstitutionSuggestions(recipe: Recipe, ingredient: string): string[] {
+  const wanted = normalise(ingredient)
+  const entry = Object.entries(recipe.substitution_suggestions ?? {}).find(([name]) => normalise(name) === wanted)
+  return entry?.[1] ?? []
+}
+
+/**
+ * Substitutes for a missing ingredient from the ingredient graph and the
+ * recipe's own suggestions, without duplicates. Ones the user already has come
+ * first, then the rest by similarity; unscored suggestions go last.
+ */
+export function substituteOptions(
+  recipe: Recipe,
+  ingredient: string,
+  graph: readonly GraphSubstitution[],
+  available: readonly string[],
+): SubstituteOption[] {
+  const options = new Map<string, SubstituteOption>()
+  for (const substitution of graph) {
+    const key = normalise(substitution.ingredient)
+    if (!key || key === normalise(ingredient) || options.has(key)) continue
+    options.set(key, {
+      ingredient: substitution.ingredient,
+      score: substitution.similarity_score,
+      reason: describeGraphSubstitution(substitution),
+      available: hasIngredient(available, substitution.ingredient),
+    })
+  }
+  for (const suggestion of recipeSubstitutionSuggestions(recipe, ingredient)) {
+    const key = normalise(suggestion)
+    if (!key || options.has(key)) continue
+    options.set(key, {
+      ingredient: suggestion,
+      score: null,
+      reason: "Suggested for this recipe",
+      available: hasIngredient(available, suggestion),
+    })
+  }
+
+  return Array.from(options.values()).sort(
+    (a, b) => Number(b.available) - Number(a.available) || (b.score ?? -1) - (a.score ?? -1),
+  )
+}
+
+/**
+ * Marks a missing ingredient as covered by a substitute the user has. The
+ * substitute counts as one of the user's matched ingredients, so the match
+ * percentage (matched over all of the user's ingredients, as the backend
+ * works it out) is recomputed with it included.
+ */
+export function coverMissingIngredient(recipe: Recipe, ingredient: string, substitute: string): Recipe {
+  const missing = (recipe.missing_ingredients ?? []).filter((name) => normalise(name) !== normalise(ingredient))
+  const matched = recipe.matched_ingredients ?? []
+  const alreadyMatched = hasIngredient(matched, substitute)
+
+  const totalMatched = (recipe.total_matched ?? matched.length) + (alreadyMatched ? 0 : 1)
+  const totalUserIngredients = Math.max(recipe.total_user_ingredients ?? 0, totalMatched)
+
+  return {
+    ...recipe,
+    missing_ingredients: missing,
+    matched_ingredients: alreadyMatched ? matched : [...matched, normalise(substitute)],
+    total_matched: totalMatched,
+    total_user_ingredients: totalUserIngredients,
+    match_percentage: Math.round((totalMatched / totalUserIngredients) * 1000) / 10,
+  }
+}
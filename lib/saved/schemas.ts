@@ -0,0 +1,30 @@
+import { z } from "zod"
+import type { Recipe } from "@/lib/api/schemas"
+
+/** A row of the `saved_recipes` table (scripts/05-create-saved-recipes-tables.sql). */
+export interface SavedRecipeRow {
+  id: string
+  user_id: string
+  recipe_id: string
+  recipe: unknown
+  saved_at: string
+}
+
+/** A saved recipe with its parsed snapshot and the cookbooks it has been filed in. */
+export interface SavedRecipe {
+  id: string
+  recipe_id: string
+  recipe: Recipe
+  saved_at: string
+  cookbook_ids: string[]
+}
+
+/** A row of the `cookbooks` table. */
+export interface Cookbook {
+  id: string
+  user_id: string
+  name: string
+  created_at: string
+}
+
+export const cookbookNameSchema = z.string().trim().min(1, "Cookbook name is required").max(60)
@@ -0,0 +1,83 @@
+import type { Ingredient, Recipe } from "@/lib/api/schemas"
+import type { ShoppingListEntry } from "@/lib/shopping-list/schemas"
+import { addAmounts } from "@/lib/units/convert"
+import { canonicalUnit } from "@/lib/units/units"
+
+/** An entry after duplicates in the same batch have been folded together. */
+export interface MergedShoppingListEntry {
+  name: string
+  quantity: number | null
+  unit: string | null
+  recipe_names: string[]
+}
+
+interface Mergeable {
+  name: string
+  quantity: number | null
+  unit: string | null
+}
+
+/**
+ * The combined amount of two rows for the same ingredient, in the first row's
+ * unit, or null when they are different ingredients or their units can't be
+ * added (e.g. "2 pieces" and "200 g"). An amount without a quantity, such as
+ * "to taste", folds into whatever the other row has.
+ */
+export function combineAmounts(target: Mergeable, entry: Mergeable): Pick<Mergeable, "quantity" | "unit"> | null {
+  const name = target.name.trim().toLowerCase()
+  if (name !== entry.name.trim().toLowerCase()) return null
+  if (entry.quantity === null) return { quantity: target.quantity, unit: target.unit }
+  if (target.quantity === null) return { quantity: entry.quantity, unit: entry.unit }
+  if (!target.unit || !entry.unit) {
+    return !target.unit && !entry.unit ? { quantity: target.quantity + entry.quantity, unit: null } : null
+  }
+  return addAmounts({ quantity: target.quantity, unit: target.unit }, { quantity: entry.quantity, unit: entry.unit }, name)
+}
+
+export function mergeShoppingListEntries(entries: ShoppingListEntry[]): MergedShoppingListEntry[] {
+  const merged: MergedShoppingListEntry[] = []
+  for (const entry of entries) {
+    const recipeNames = entry.recipe_name ? [entry.recipe_name] : []
+    const candidate = { ...entry, unit: canonicalUnit(entry.unit) }
+
+    const folded = merged.some((existing) => {
+      const combined = combineAmounts(existing, candidate)
+      if (!combined) return false
+      Object.assign(existing, combined)
+      existing.recipe_names = Array.from(new Set([...existing.recipe_names, ...recipeNames]))
+      return true
+    })
+    if (!folded) {
+      merged.push({ name: candidate.name, quantity: candidate.quantity, unit: candidate.unit, recipe_names: recipeNames })
+    }
+  }
+  return merged
+}
+
+/**
+ * Shopping list entries for a recipe's missing ingredients. The match only
+ * returns ingredient names, so quantities are looked up in the recipe's own
+ * ingredient list where one matches.
+ */
+export function missingIngredientEntries(recipe: Recipe): ShoppingListEntry[] {
+  const seen = new Set<Ingredient>()
+  const entries: ShoppingListEntry[] = []
+
+  for (const missing of recipe.missing_ingredients ?? []) {
+    const term = missing.trim().toLowerCase()
+    if (!term) continue
+    const ingredient =
+      recipe.ingredients.find((candidate) => candidate.name.toLowerCase() === term) ??
+      recipe.ingredients.find((candidate) => candidate.name.toLowerCase().includes(term))
+    if (ingredient && seen.has(ingredient)) continue
+    if (ingredient) seen.add(ingredient)
+
+    entries.push({
+      name: (ingredient?.name ?? term).toLowerCase(),
+      quantity: ingredient?.quantity && ingredient.quantity > 0 ? ingredient.quantity : null,
+      unit: ingredient?.quantity ? (ingredient.unit ?? null) : null,
+      recipe_name: recipe.name,
+    })
+  }
+  return entries
+}
@@ -0,0 +1,23 @@
+import { z } from "zod"
+
+/** A row of the `shopping_list_items` table (scripts/04-create-shopping-list-items-table.sql). */
+export interface ShoppingListItem {
+  id: string
+  user_id: string
+  name: string
+  quantity: number | null
+  unit: string | null
+  recipe_names: string[]
+  checked: boolean
+  added_at: string
+}
+
+export const shoppingListEntrySchema = z.object({
+  name: z.string().trim().toLowerCase().min(1, "Name is required").max(100),
+  quantity: z.number().positive().nullable(),
+  unit: z.string().trim().max(30).nullable(),
+  recipe_name: z.string().trim().max(200).nullable(),
+})
+
+/** One ingredient to add to the list, before it is merged with existing rows. */
+export type ShoppingListEntry = z.infer<typeof shoppingListEntrySchema>
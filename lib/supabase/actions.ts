@@ -0,0 +1,15 @@
+import { createClient } from "@/lib/supabase/server"
+
+// Shared by the server actions in app/*/actions.ts
+
+/** What a server action returns: its data, or a message to show the user. */
+export type ActionResult<T = undefined> = { data: T; error?: never } | { data?: never; error: string }
+
+/** A server Supabase client and the signed-in user, who is null for visitors. */
+export async function getAuthenticatedClient() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  return { supabase, user }
+}
@@ -35,7 +35,7 @@ export async function updateSession(request: NextRequest) {
   const { pathname } = request.nextUrl
 
   // Define protected routes
-  const protectedRoutes = ['/dashboard', '/protected']
+  const protectedRoutes = ['/dashboard', '/protected', '/pantry', '/shopping-list', '/saved', '/my-recipes', '/planner', '/profile', '/insights', '/graph']
   const authRoutes = ['/auth/login', '/auth/sign-up', '/auth/sign-up-success', '/auth/callback', '/auth/auth-code-error']
   const publicRoutes = ['/', '/about']
 
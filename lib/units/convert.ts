@@ -0,0 +1,153 @@
+import { createNameMatcher } from "@/lib/ingredients/match"
+import { getUnit, parseUnit, type UnitDefinition, type UnitSystem } from "@/lib/units/units"
+
+export interface Amount {
+  quantity: number
+  unit: string
+}
+
+// Grams per millilitre for ingredients usually measured by volume. Keys are
+// matched as whole words of the ingredient name, longest first, so "brown
+// sugar" wins over "sugar" and "boiled potatoes" isn't taken for oil.
+const DENSITIES: Record<string, number> = {
+  water: 1,
+  stock: 1,
+  broth: 1,
+  milk: 1.03,
+  cream: 1.01,
+  yogurt: 1.03,
+  curd: 1.03,
+  dahi: 1.03,
+  buttermilk: 1.03,
+  oil: 0.92,
+  ghee: 0.91,
+  butter: 0.96,
+  honey: 1.42,
+  jaggery: 0.9,
+  sugar: 0.85,
+  "brown sugar": 0.93,
+  "powdered sugar": 0.5,
+  salt: 1.2,
+  flour: 0.53,
+  atta: 0.53,
+  maida: 0.53,
+  besan: 0.46,
+  "gram flour": 0.46,
+  "rice flour": 0.6,
+  cornflour: 0.54,
+  cornstarch: 0.54,
+  semolina: 0.7,
+  sooji: 0.7,
+  rava: 0.7,
+  rice: 0.85,
+  poha: 0.3,
+  oats: 0.38,
+  dal: 0.82,
+  lentils: 0.82,
+  chickpeas: 0.8,
+  "cocoa powder": 0.42,
+  "baking powder": 0.9,
+  "baking soda": 1.1,
+  cheese: 0.42,
+  "tomato puree": 1.05,
+  "coconut milk": 0.98,
+  "desiccated coconut": 0.35,
+  peanuts: 0.6,
+  cashews: 0.55,
+}
+
+const findDensityKey = createNameMatcher(Object.keys(DENSITIES), (key) => [key])
+
+/** Grams per millilitre for an ingredient, when it is known. */
+export function getDensity(ingredient: string | undefined): number | null {
+  const key = ingredient ? findDensityKey(ingredient) : null
+  return key ? DENSITIES[key] : null
+}
+
+function resolve(unit: string | UnitDefinition): UnitDefinition | null {
+  return typeof unit === "string" ? parseUnit(unit) : unit
+}
+
+/**
+ * Converts a quantity between units. Volume and mass convert into each other
+ * only when the ingredient's density is known. Returns null for anything that
+ * can't be converted, such as count units or unrecognised units.
+ */
+export function convertQuantity(
+  quantity: number,
+  from: string | UnitDefinition,
+  to: string | UnitDefinition,
+  ingredient?: string,
+): number | null {
+  const source = resolve(from)
+  const target = resolve(to)
+  if (!source || !target) return null
+  if (source.id === target.id) return quantity
+  if (source.dimension === "count" || source.dimension === "informal") return null
+
+  const base = quantity * source.factor
+  if (source.dimension === target.dimension) return base / target.factor
+
+  const density = getDensity(ingredient)
+  if (density === null) return null
+  if (source.dimension === "volume" && target.dimension === "mass") return (base * density) / target.factor
+  if (source.dimension === "mass" && target.dimension === "volume") return base / density / target.factor
+  return null
+}
+
+/** Whether two units measure the same thing, directly or through the ingredient's density. */
+export function areUnitsCompatible(a: string | null, b: string | null, ingredient?: string): boolean {
+  if (!a || !b) return !a && !b
+  const first = parseUnit(a)
+  const second = parseUnit(b)
+  if (!first || !second) return a.trim().toLowerCase() === b.trim().toLowerCase()
+  return first.id === second.id || convertQuantity(1, first, second, ingredient) !== null
+}
+
+// Candidate display units per system and dimension, smallest first.
+const SYSTEM_UNITS: Record<UnitSystem, Record<"volume" | "mass", string[]>> = {
+  metric: { volume: ["ml", "l"], mass: ["g", "kg"] },
+  imperial: { volume: ["tsp", "tbsp", "cup", "quart", "gallon"], mass: ["oz", "lb"] },
+}
+
+const SPOONS = ["tsp", "tbsp"]
+const MAX_SPOON_ML = 60
+
+// How many of a unit you need before the next size up reads better.
+const PROMOTE_AT: Record<string, number> = { l: 1, kg: 1, tbsp: 1, cup: 0.25, quart: 1, gallon: 1, lb: 1 }
+
+/**
+ * Picks the most readable unit in the given system for an amount, e.g. 750 ml
+ * stays in ml but 1500 ml becomes 1.5 l, and 48 tsp becomes 1 cup. Amounts in
+ * count, informal or unknown units, or already in the system, are returned
+ * unchanged.
+ */
+export function toUnitSystem(amount: Amount, system: UnitSystem): Amount {
+  const unit = parseUnit(amount.unit)
+  if (!unit || unit.system === null) return amount
+  if (unit.dimension !== "volume" && unit.dimension !== "mass") return amount
+  // Spoon measures read naturally in metric recipes too
+  if (system === "metric" && SPOONS.includes(unit.id) && amount.quantity * unit.factor <= MAX_SPOON_ML) return amount
+
+  const candidates = SYSTEM_UNITS[system][unit.dimension]
+  const base = amount.quantity * unit.factor
+  let best = candidates[0]
+  for (const candidate of candidates.slice(1)) {
+    if (base / getUnit(candidate)!.factor >= PROMOTE_AT[candidate]) best = candidate
+  }
+  if (unit.system === system && unit.id === best) return amount
+  return { quantity: base / getUnit(best)!.factor, unit: best }
+}
+
+/**
+ * Adds two amounts of the same ingredient, expressing the total in the first
+ * amount's unit. Returns null when the units can't be combined.
+ */
+export function addAmounts(first: Amount, second: Amount, ingredient?: string): Amount | null {
+  const converted = convertQuantity(second.quantity, second.unit, first.unit, ingredient)
+  if (converted !== null) return { quantity: first.quantity + converted, unit: first.unit }
+  if (first.unit.trim().toLowerCase() === second.unit.trim().toLowerCase()) {
+    return { quantity: first.quantity + second.quantity, unit: first.unit }
+  }
+  return null
+}
@@ -0,0 +1,92 @@
+import { toUnitSystem } from "@/lib/units/convert"
+import { getUnit, parseUnit, type UnitSystem } from "@/lib/units/units"
+
+const FRACTION_GLYPHS: [number, string][] = [
+  [1 / 8, "⅛"],
+  [1 / 4, "¼"],
+  [1 / 3, "⅓"],
+  [3 / 8, "⅜"],
+  [1 / 2, "½"],
+  [5 / 8, "⅝"],
+  [2 / 3, "⅔"],
+  [3 / 4, "¾"],
+  [7 / 8, "⅞"],
+]
+
+/**
+ * Rounds to the nearest fraction a cook can measure: eighths, quarters,
+ * thirds and halves below 10, whole numbers up to 100 and fives above that.
+ * Anything positive stays at least ⅛ so small amounts don't vanish.
+ */
+export function roundToKitchenFraction(quantity: number): number {
+  if (quantity <= 0) return 0
+  if (quantity >= 100) return Math.round(quantity / 5) * 5
+  if (quantity >= 10) return Math.round(quantity)
+
+  const whole = Math.floor(quantity)
+  const remainder = quantity - whole
+  let best = 0
+  for (const candidate of [0, 1, ...FRACTION_GLYPHS.map(([value]) => value)]) {
+    if (Math.abs(remainder - candidate) < Math.abs(remainder - best)) best = candidate
+  }
+  return Math.max(whole + best, 1 / 8)
+}
+
+function formatFraction(quantity: number): string {
+  const rounded = roundToKitchenFraction(quantity)
+  const whole = Math.floor(rounded + 1e-9)
+  const remainder = rounded - whole
+  const glyph = FRACTION_GLYPHS.find(([value]) => Math.abs(value - remainder) < 1e-6)?.[1] ?? ""
+  if (!glyph) return String(whole)
+  return whole > 0 ? `${whole}${glyph}` : glyph
+}
+
+// Metric weights and volumes read better as decimals ("1.5 kg", "250 g")
+function formatDecimal(quantity: number): string {
+  if (quantity >= 100) return String(Math.round(quantity / 5) * 5)
+  if (quantity >= 10) return String(Math.round(quantity))
+  // Keep one significant figure rather than rounding a small amount to 0
+  return String(Math.round(quantity * 100) / 100 || Number(quantity.toPrecision(1)))
+}
+
+// The next metric unit down, for amounts too small to show in the larger one
+const SMALLER_METRIC: Record<string, string> = { kg: "g", g: "mg", l: "ml" }
+
+export function formatQuantity(quantity: number, unit?: string | null): string {
+  return parseUnit(unit)?.system === "metric" ? formatDecimal(quantity) : formatFraction(quantity)
+}
+
+/**
+ * Formats an amount for display: "1½ cups", "250 g", "2 cloves", "to taste".
+ * Unrecognised units are printed as given.
+ */
+export function formatAmount(quantity: number | null | undefined, unit: string | null | undefined): string {
+  const parsed = parseUnit(unit)
+  const unitText = unit?.trim() ?? ""
+
+  if (quantity === null || quantity === undefined || quantity <= 0) {
+    return parsed?.dimension === "informal" ? parsed.singular : unitText
+  }
+
+  const smaller = parsed && Math.round(quantity * 100) === 0 ? SMALLER_METRIC[parsed.id] : undefined
+  if (parsed && smaller) return formatAmount((quantity * parsed.factor) / getUnit(smaller)!.factor, smaller)
+
+  const quantityText = formatQuantity(quantity, unit)
+  if (!unitText) return quantityText
+  if (!parsed) return `${quantityText} ${unitText}`
+  // "to taste" with a number is just the number
+  if (parsed.id === "to taste") return quantityText
+  const label = roundToKitchenFraction(quantity) > 1 || parsed.system === "metric" ? parsed.plural : parsed.singular
+  return `${quantityText} ${label}`
+}
+
+/** Like `formatAmount`, optionally converting into metric or imperial first. */
+export function formatAmountIn(
+  quantity: number | null | undefined,
+  unit: string | null | undefined,
+  system: UnitSystem | null,
+): string {
+  if (!system || !quantity || !unit) return formatAmount(quantity, unit)
+  const converted = toUnitSystem({ quantity, unit }, system)
+  return formatAmount(converted.quantity, converted.unit)
+}
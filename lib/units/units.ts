@@ -0,0 +1,153 @@
+export type UnitDimension = "volume" | "mass" | "count" | "informal"
+
+export type UnitSystem = "metric" | "imperial"
+
+export interface UnitDefinition {
+  id: string
+  dimension: UnitDimension
+  /** Size in the dimension's base unit: millilitres for volume, grams for mass. */
+  factor: number
+  /** Count and informal units belong to neither system and are never converted. */
+  system: UnitSystem | null
+  singular: string
+  plural: string
+  aliases: string[]
+}
+
+// Cups and spoons are the 240/15/5 ml measures Indian and US recipes both use.
+const definitions: UnitDefinition[] = [
+  { id: "ml", dimension: "volume", factor: 1, system: "metric", singular: "ml", plural: "ml", aliases: ["milliliter", "millilitre", "mls", "cc"] },
+  { id: "l", dimension: "volume", factor: 1000, system: "metric", singular: "l", plural: "l", aliases: ["liter", "litre", "ltr", "lt"] },
+  { id: "tsp", dimension: "volume", factor: 5, system: "imperial", singular: "tsp", plural: "tsp", aliases: ["teaspoon", "t"] },
+  { id: "tbsp", dimension: "volume", factor: 15, system: "imperial", singular: "tbsp", plural: "tbsp", aliases: ["tablespoon", "tbs", "tbl", "T"] },
+  { id: "cup", dimension: "volume", factor: 240, system: "imperial", singular: "cup", plural: "cups", aliases: ["c"] },
+  { id: "fl oz", dimension: "volume", factor: 29.5735, system: "imperial", singular: "fl oz", plural: "fl oz", aliases: ["fluid ounce", "floz", "fl. oz"] },
+  { id: "pint", dimension: "volume", factor: 473.176, system: "imperial", singular: "pint", plural: "pints", aliases: ["pt"] },
+  { id: "quart", dimension: "volume", factor: 946.353, system: "imperial", singular: "quart", plural: "quarts", aliases: ["qt"] },
+  { id: "gallon", dimension: "volume", factor: 3785.41, system: "imperial", singular: "gallon", plural: "gallons", aliases: ["gal"] },
+  { id: "mg", dimension: "mass", factor: 0.001, system: "metric", singular: "mg", plural: "mg", aliases: ["milligram", "milligramme"] },
+  { id: "g", dimension: "mass", factor: 1, system: "metric", singular: "g", plural: "g", aliases: ["gram", "gramme", "gm", "gms", "gr"] },
+  { id: "kg", dimension: "mass", factor: 1000, system: "metric", singular: "kg", plural: "kg", aliases: ["kilogram", "kilogramme", "kilo", "kgs"] },
+  { id: "oz", dimension: "mass", factor: 28.3495, system: "imperial", singular: "oz", plural: "oz", aliases: ["ounce"] },
+  { id: "lb", dimension: "mass", factor: 453.592, system: "imperial", singular: "lb", plural: "lb", aliases: ["pound", "lbs"] },
+  { id: "piece", dimension: "count", factor: 1, system: null, singular: "piece", plural: "pieces", aliases: ["pc", "pcs", "whole", "nos", "no"] },
+  { id: "clove", dimension: "count", factor: 1, system: null, singular: "clove", plural: "cloves", aliases: [] },
+  { id: "slice", dimension: "count", factor: 1, system: null, singular: "slice", plural: "slices", aliases: [] },
+  { id: "bunch", dimension: "count", factor: 1, system: null, singular: "bunch", plural: "bunches", aliases: [] },
+  { id: "sprig", dimension: "count", factor: 1, system: null, singular: "sprig", plural: "sprigs", aliases: [] },
+  { id: "leaf", dimension: "count", factor: 1, system: null, singular: "leaf", plural: "leaves", aliases: [] },
+  { id: "can", dimension: "count", factor: 1, system: null, singular: "can", plural: "cans", aliases: ["tin"] },
+  { id: "packet", dimension: "count", factor: 1, system: null, singular: "packet", plural: "packets", aliases: ["pack", "pkt"] },
+  { id: "inch", dimension: "count", factor: 1, system: null, singular: "inch", plural: "inches", aliases: ["in", "\""] },
+  { id: "pinch", dimension: "informal", factor: 1, system: null, singular: "pinch", plural: "pinches", aliases: [] },
+  { id: "dash", dimension: "informal", factor: 1, system: null, singular: "dash", plural: "dashes", aliases: [] },
+  { id: "handful", dimension: "informal", factor: 1, system: null, singular: "handful", plural: "handfuls", aliases: [] },
+  { id: "to taste", dimension: "informal", factor: 1, system: null, singular: "to taste", plural: "to taste", aliases: ["as required", "as needed", "as per taste"] },
+]
+
+const unitsById = new Map(definitions.map((unit) => [unit.id, unit]))
+
+// Aliases are matched case-insensitively except "T" (tablespoon) vs "t" (teaspoon).
+const unitsByAlias = new Map<string, UnitDefinition>()
+for (const unit of definitions) {
+  for (const alias of [unit.id, unit.singular, unit.plural, ...unit.aliases]) {
+    unitsByAlias.set(alias === "T" ? alias : alias.toLowerCase(), unit)
+  }
+}
+
+export function getUnit(id: string): UnitDefinition | undefined {
+  return unitsById.get(id)
+}
+
+/** Looks up a free-form unit ("Tablespoons", "tbsp.", "gms"). Returns null when it isn't recognised. */
+export function parseUnit(raw: string | null | undefined): UnitDefinition | null {
+  const trimmed = raw?.trim().replace(/\.$/, "")
+  if (!trimmed) return null
+  if (trimmed === "T") return unitsByAlias.get("T")!
+
+  const lower = trimmed.toLowerCase().replace(/\s+/g, " ")
+  return (
+    unitsByAlias.get(lower) ??
+    unitsByAlias.get(lower.replace(/es$/, "")) ??
+    unitsByAlias.get(lower.replace(/s$/, "")) ??
+    null
+  )
+}
+
+/** The canonical id for a unit, or the cleaned-up original when it isn't recognised. */
+export function canonicalUnit(raw: string | null | undefined): string | null {
+  const trimmed = raw?.trim()
+  if (!trimmed) return null
+  return parseUnit(trimmed)?.id ?? trimmed.toLowerCase()
+}
+
+/** Units like "to taste" or "pinch" that describe a judgement rather than an amount. */
+export function isInformalUnit(raw: string | null | undefined): boolean {
+  return parseUnit(raw)?.dimension === "informal"
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25,
+  "½": 0.5,
+  "¾": 0.75,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 0.125,
+  "⅜": 0.375,
+  "⅝": 0.625,
+  "⅞": 0.875,
+}
+
+// Mixed numbers and fractions come first so "1 1/2" isn't read as "1"
+const NUMBER_PATTERN = "\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*\\s?[¼½¾⅓⅔⅛⅜⅝⅞]|\\d+(?:\\.\\d+)?"
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim()
+  const unicode = trimmed.match(/^(\d*)\s?([¼½¾⅓⅔⅛⅜⅝⅞])$/)
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]]
+
+  let total = 0
+  for (const part of trimmed.split(/\s+/)) {
+    const [numerator, denominator] = part.split("/")
+    const value = denominator === undefined ? Number(numerator) : Number(numerator) / Number(denominator)
+    if (!Number.isFinite(value)) return null
+    total += value
+  }
+  return total
+}
+
+export interface ParsedQuantity {
+  quantity: number | null
+  unit: string | null
+  /** Whatever followed the amount and unit, usually the ingredient name. */
+  rest: string
+}
+
+/**
+ * Splits a leading amount off text such as "1 1/2 cups rice", "½ tsp salt",
+ * "200g paneer" or "2-3 green chillies" (ranges keep the upper bound). The
+ * unit is canonicalised; unrecognised words are left in `rest`.
+ */
+export function parseQuantity(text: string): ParsedQuantity {
+  const trimmed = text.trim()
+  const match = trimmed.match(new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?\\s*(.*)$`))
+  if (!match) {
+    const informal = trimmed.match(/^(a pinch|pinch|a dash|dash|a handful|handful)(?:\s+of)?\s+(.*)$/i)
+    if (informal) return { quantity: null, unit: parseUnit(informal[1].replace(/^a /i, ""))!.id, rest: informal[2] }
+    return { quantity: null, unit: null, rest: trimmed }
+  }
+
+  const quantity = parseNumber(match[2] ?? match[1])
+  const remainder = match[3]
+
+  // Try the longest unit first so "fl oz" wins over "fl"
+  const words = remainder.split(/\s+/)
+  for (let length = Math.min(2, words.length); length > 0; length--) {
+    const candidate = words.slice(0, length).join(" ")
+    const unit = parseUnit(candidate)
+    if (unit && unit.dimension !== "informal") {
+      return { quantity, unit: unit.id, rest: words.slice(length).join(" ").replace(/^of\s+/i, "") }
+    }
+  }
+  return { quantity, unit: null, rest: remainder }
+}
@@ -0,0 +1,10 @@
+import { z } from "zod"
+
+// The bundled JSON tables (offline recipes, nutrients, prices, the ingredient
+// vocabulary) each carry a `version`. Bump it whenever a table's contents
+// change, so results cached from an older table can be told apart.
+
+/** Validates a bundled table against its schema, plus the `version` every table has. */
+export function loadVersionedTable<Shape extends z.ZodRawShape>(schema: z.ZodObject<Shape>, json: unknown) {
+  return schema.extend({ version: z.string() }).parse(json)
+}
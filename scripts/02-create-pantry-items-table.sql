@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  quantity NUMERIC,
+  unit TEXT,
+  category TEXT,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS pantry_items_user_id_idx ON pantry_items (user_id);
+
+-- Each user can only see and change their own pantry
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own pantry items" ON pantry_items;
+CREATE POLICY "Users can view their own pantry items"
+  ON pantry_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add their own pantry items" ON pantry_items;
+CREATE POLICY "Users can add their own pantry items"
+  ON pantry_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own pantry items" ON pantry_items;
+CREATE POLICY "Users can update their own pantry items"
+  ON pantry_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own pantry items" ON pantry_items;
+CREATE POLICY "Users can delete their own pantry items"
+  ON pantry_items FOR DELETE
+  USING (auth.uid() = user_id);
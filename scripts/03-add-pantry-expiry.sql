@@ -0,0 +1,4 @@
+-- Best-before / expiry date for pantry items (NULL for things that keep)
+ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS expires_on DATE;
+
+CREATE INDEX IF NOT EXISTS pantry_items_expires_on_idx ON pantry_items (user_id, expires_on);
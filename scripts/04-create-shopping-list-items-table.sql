@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS shopping_list_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  quantity NUMERIC,
+  unit TEXT,
+  -- Names of the recipes that asked for this item, so merged rows stay traceable
+  recipe_names TEXT[] NOT NULL DEFAULT '{}',
+  checked BOOLEAN NOT NULL DEFAULT FALSE,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS shopping_list_items_user_id_idx ON shopping_list_items (user_id);
+
+-- Each user can only see and change their own shopping list
+ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own shopping list items" ON shopping_list_items;
+CREATE POLICY "Users can view their own shopping list items"
+  ON shopping_list_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add their own shopping list items" ON shopping_list_items;
+CREATE POLICY "Users can add their own shopping list items"
+  ON shopping_list_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own shopping list items" ON shopping_list_items;
+CREATE POLICY "Users can update their own shopping list items"
+  ON shopping_list_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own shopping list items" ON shopping_list_items;
+CREATE POLICY "Users can delete their own shopping list items"
+  ON shopping_list_items FOR DELETE
+  USING (auth.uid() = user_id);
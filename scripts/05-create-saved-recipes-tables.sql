@@ -0,0 +1,96 @@
+-- Saved recipes keep a JSON snapshot of the recipe so they survive changes to
+-- the backend dataset
+CREATE TABLE IF NOT EXISTS saved_recipes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipe_id TEXT NOT NULL,
+  recipe JSONB NOT NULL,
+  saved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, recipe_id)
+);
+
+CREATE TABLE IF NOT EXISTS cookbooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS cookbook_recipes (
+  cookbook_id UUID NOT NULL REFERENCES cookbooks(id) ON DELETE CASCADE,
+  saved_recipe_id UUID NOT NULL REFERENCES saved_recipes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (cookbook_id, saved_recipe_id)
+);
+
+CREATE INDEX IF NOT EXISTS saved_recipes_user_id_idx ON saved_recipes (user_id);
+CREATE INDEX IF NOT EXISTS cookbooks_user_id_idx ON cookbooks (user_id);
+CREATE INDEX IF NOT EXISTS cookbook_recipes_user_id_idx ON cookbook_recipes (user_id);
+
+-- Each user can only see and change their own saves and cookbooks
+ALTER TABLE saved_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cookbooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cookbook_recipes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved recipes" ON saved_recipes;
+CREATE POLICY "Users can view their own saved recipes"
+  ON saved_recipes FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can save recipes" ON saved_recipes;
+CREATE POLICY "Users can save recipes"
+  ON saved_recipes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own saved recipes" ON saved_recipes;
+CREATE POLICY "Users can update their own saved recipes"
+  ON saved_recipes FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own saved recipes" ON saved_recipes;
+CREATE POLICY "Users can delete their own saved recipes"
+  ON saved_recipes FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own cookbooks" ON cookbooks;
+CREATE POLICY "Users can view their own cookbooks"
+  ON cookbooks FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create cookbooks" ON cookbooks;
+CREATE POLICY "Users can create cookbooks"
+  ON cookbooks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can rename their own cookbooks" ON cookbooks;
+CREATE POLICY "Users can rename their own cookbooks"
+  ON cookbooks FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own cookbooks" ON cookbooks;
+CREATE POLICY "Users can delete their own cookbooks"
+  ON cookbooks FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own cookbook entries" ON cookbook_recipes;
+CREATE POLICY "Users can view their own cookbook entries"
+  ON cookbook_recipes FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add to their own cookbooks" ON cookbook_recipes;
+CREATE POLICY "Users can add to their own cookbooks"
+  ON cookbook_recipes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM cookbooks WHERE cookbooks.id = cookbook_id AND cookbooks.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM saved_recipes WHERE saved_recipes.id = saved_recipe_id AND saved_recipes.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can remove from their own cookbooks" ON cookbook_recipes;
+CREATE POLICY "Users can remove from their own cookbooks"
+  ON cookbook_recipes FOR DELETE
+  USING (auth.uid() = user_id);
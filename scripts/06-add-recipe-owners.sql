@@ -0,0 +1,37 @@
+-- User-authored recipes: each recipe has an owner and is private until published
+ALTER TABLE recipes
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS cuisine TEXT,
+  ADD COLUMN IF NOT EXISTS diet TEXT,
+  ADD COLUMN IF NOT EXISTS difficulty TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Recipes created before owners existed stay visible to everyone
+UPDATE recipes SET is_public = TRUE WHERE owner_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS recipes_owner_id_idx ON recipes (owner_id);
+CREATE INDEX IF NOT EXISTS recipes_public_name_idx ON recipes (lower(name)) WHERE is_public;
+
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view public recipes and owners can view their own" ON recipes;
+CREATE POLICY "Anyone can view public recipes and owners can view their own"
+  ON recipes FOR SELECT
+  USING (is_public OR auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can create their own recipes" ON recipes;
+CREATE POLICY "Users can create their own recipes"
+  ON recipes FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Owners can update their recipes" ON recipes;
+CREATE POLICY "Owners can update their recipes"
+  ON recipes FOR UPDATE
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Owners can delete their recipes" ON recipes;
+CREATE POLICY "Owners can delete their recipes"
+  ON recipes FOR DELETE
+  USING (auth.uid() = owner_id);
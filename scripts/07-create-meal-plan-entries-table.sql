@@ -0,0 +1,59 @@
+-- One recipe per meal slot per day. The recipe JSON is snapshotted like in
+-- saved_recipes so plans survive backend dataset changes.
+CREATE TABLE IF NOT EXISTS meal_plan_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_date DATE NOT NULL,
+  slot TEXT NOT NULL CHECK (slot IN ('breakfast', 'lunch', 'dinner')),
+  recipe_id TEXT NOT NULL,
+  recipe JSONB NOT NULL,
+  servings INTEGER NOT NULL DEFAULT 2 CHECK (servings > 0),
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, plan_date, slot)
+);
+
+CREATE INDEX IF NOT EXISTS meal_plan_entries_user_date_idx ON meal_plan_entries (user_id, plan_date);
+
+-- Each user can only see and change their own plan
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can view their own meal plan"
+  ON meal_plan_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add to their own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can add to their own meal plan"
+  ON meal_plan_entries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can update their own meal plan"
+  ON meal_plan_entries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete from their own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can delete from their own meal plan"
+  ON meal_plan_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Moves an entry to another slot, replacing whatever was planned there. Both
+-- steps run in one transaction, so a failed move can't lose the occupant.
+-- SECURITY INVOKER keeps the policies above in force.
+CREATE OR REPLACE FUNCTION move_meal_plan_entry(entry_id UUID, target_date DATE, target_slot TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM meal_plan_entries WHERE id = entry_id) THEN
+    RAISE EXCEPTION 'Meal plan entry % not found', entry_id;
+  END IF;
+
+  DELETE FROM meal_plan_entries
+  WHERE user_id = auth.uid() AND plan_date = target_date AND slot = target_slot AND id <> entry_id;
+
+  UPDATE meal_plan_entries SET plan_date = target_date, slot = target_slot WHERE id = entry_id;
+END;
+$$;